@@ -4,6 +4,10 @@ import Home from './pages/Home'
 import Login from './pages/Login'
 import Dashboard from './pages/Dashboard'
 import WalkSession from './pages/WalkSession'
+import WalkHistory from './pages/WalkHistory'
+import WalkDetail from './pages/WalkDetail'
+import ExploredMap from './pages/ExploredMap'
+import LiveWalk from './pages/LiveWalk'
 import Community from './pages/Community'
 import CommunityDetail from './pages/CommunityDetail'
 import Challenges from './pages/Challenges'
@@ -14,10 +18,14 @@ function App() {
     <Router>
       <Routes>
         <Route path="/login" element={<Login />} />
+        <Route path="/live/:token" element={<LiveWalk />} />
         <Route path="/" element={<Layout />}>
           <Route index element={<Home />} />
           <Route path="dashboard" element={<Dashboard />} />
           <Route path="walk" element={<WalkSession />} />
+          <Route path="walks" element={<WalkHistory />} />
+          <Route path="walks/:sessionId" element={<WalkDetail />} />
+          <Route path="explored" element={<ExploredMap />} />
           <Route path="community" element={<Community />} />
           <Route path="community/:postId" element={<CommunityDetail />} />
           <Route path="challenges" element={<Challenges />} />
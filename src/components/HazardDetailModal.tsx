@@ -1,6 +1,23 @@
 import { useState, useEffect } from 'react'
-import { X, MapPin, Calendar, User, AlertTriangle, Edit, Trash2 } from 'lucide-react'
-import { hazardApi, authApi } from '../lib/api'
+import { X, MapPin, Calendar, Clock, User, AlertTriangle, Edit, Trash2, ThumbsUp, ThumbsDown, Users } from 'lucide-react'
+import {
+  hazardApi,
+  authApi,
+  getApiErrorMessage,
+  type HazardActiveHours,
+  type HazardResponse,
+  type HazardVoteResponse,
+  type HazardVoteType,
+} from '../lib/api'
+import {
+  formatActiveHours,
+  formatHazardAge,
+  getHazardActiveHours,
+  getHazardConfidence,
+  getHazardRemainingDays,
+  isHazardArchived,
+} from '../lib/hazardRelevance'
+import { getHazardCategoryLabel } from '../lib/hazards'
 
 interface HazardData {
   id: number
@@ -11,6 +28,13 @@ interface HazardData {
   imageUrl?: string
   reporterId?: number
   reporterNickname?: string
+  activeHours?: HazardActiveHours | null
+  stillThereCount?: number
+  goneCount?: number
+  lastConfirmedAt?: string | null
+  lastConfirmedByNickname?: string | null
+  myVote?: HazardVoteType | null
+  isArchived?: boolean
   createdAt: string
 }
 
@@ -20,27 +44,26 @@ interface HazardDetailModalProps {
   onClose: () => void
   onEdit?: (hazard: HazardData) => void
   onDelete?: () => void
+  /** 투표 후 지도 새로고침 */
+  onVoted?: () => void
 }
 
-const getCategoryLabel = (category: string): string => {
-  const labels: Record<string, string> = {
-    LEASH: '목줄 미착용',
-    MUZZLE: '입마개 미착용',
-    AGGRESSIVE_DOG: '공격적인 개',
-    HAZARDOUS_MATERIAL: '위험물질',
-    WILDLIFE: '야생동물 출몰',
-    LOW_LIGHT: '조명 부족',
-    BIKE_CAR: '자전거·차량 위험',
-    POOP_LEFT: '배변 미수거',
-    OTHER: '기타',
-  }
-  return labels[category] || category
+const VOTE_LABELS: Record<HazardVoteType, string> = {
+  STILL_THERE: '아직 있어요',
+  GONE: '없어졌어요',
 }
 
-export default function HazardDetailModal({ hazard, isOpen, onClose, onEdit, onDelete }: HazardDetailModalProps) {
+export default function HazardDetailModal({ hazard, isOpen, onClose, onEdit, onDelete, onVoted }: HazardDetailModalProps) {
   const [currentUserId, setCurrentUserId] = useState<number | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
   const [deleteError, setDeleteError] = useState<string | null>(null)
+  // 투표 후 서버가 돌려준 최신 집계 (다시 열면 초기화)
+  const [votedHazard, setVotedHazard] = useState<HazardResponse | null>(null)
+  const [votes, setVotes] = useState<HazardVoteResponse[]>([])
+  const [votesReloadKey, setVotesReloadKey] = useState(0)
+  const [isVoting, setIsVoting] = useState(false)
+  const [voteError, setVoteError] = useState<string | null>(null)
+  const hazardId = hazard?.id
   
   // 현재 사용자 ID 가져오기
   useEffect(() => {
@@ -59,6 +82,34 @@ export default function HazardDetailModal({ hazard, isOpen, onClose, onEdit, onD
       fetchCurrentUser()
     }
   }, [isOpen])
+
+  // 다른 위험 요소를 열거나 다시 열면 지도에서 새로 받은 값을 그대로 사용
+  useEffect(() => {
+    setVotedHazard(null)
+    setVoteError(null)
+  }, [isOpen, hazardId])
+
+  // 투표 기록 불러오기
+  useEffect(() => {
+    if (!isOpen || hazardId === undefined) return
+
+    let cancelled = false
+    hazardApi
+      .getVotes(hazardId)
+      .then((response) => {
+        if (!cancelled && response.success && response.data) {
+          setVotes(response.data)
+        }
+      })
+      .catch((error) => {
+        console.warn('투표 기록을 가져올 수 없습니다:', error)
+      })
+
+    return () => {
+      cancelled = true
+      setVotes([])
+    }
+  }, [isOpen, hazardId, votesReloadKey])
   
   console.log('HazardDetailModal 렌더링:', { isOpen, hazard: hazard?.id, currentUserId, reporterId: hazard?.reporterId })
   
@@ -67,7 +118,32 @@ export default function HazardDetailModal({ hazard, isOpen, onClose, onEdit, onD
     return null
   }
   
+  const current: HazardData = votedHazard ? { ...hazard, ...votedHazard } : hazard
+  const activeHours = getHazardActiveHours(current)
   const isOwner = currentUserId !== null && hazard.reporterId !== undefined && currentUserId === hazard.reporterId
+  const voteCount = (current.stillThereCount ?? 0) + (current.goneCount ?? 0)
+
+  const handleVote = async (vote: HazardVoteType) => {
+    try {
+      setIsVoting(true)
+      setVoteError(null)
+
+      const response = await hazardApi.vote(hazard.id, vote)
+
+      if (response.success && response.data) {
+        setVotedHazard(response.data)
+        setVotesReloadKey((key) => key + 1)
+        onVoted?.()
+      } else {
+        setVoteError(response.message || '투표에 실패했습니다.')
+      }
+    } catch (error) {
+      console.error('위험 스팟 투표 오류:', error)
+      setVoteError(getApiErrorMessage(error, '투표 중 오류가 발생했습니다.'))
+    } finally {
+      setIsVoting(false)
+    }
+  }
   
   const handleDelete = async () => {
     if (!confirm('정말로 이 위험 스팟을 삭제하시겠습니까?')) {
@@ -132,7 +208,7 @@ export default function HazardDetailModal({ hazard, isOpen, onClose, onEdit, onD
             <AlertTriangle className="text-red-500" size={24} />
             <div>
               <h2 className="text-2xl font-bold text-gray-900">위험 스팟</h2>
-              <p className="text-sm text-gray-500 mt-1">{getCategoryLabel(hazard.category)}</p>
+              <p className="text-sm text-gray-500 mt-1">{getHazardCategoryLabel(hazard.category)}</p>
             </div>
           </div>
           <button
@@ -185,11 +261,67 @@ export default function HazardDetailModal({ hazard, isOpen, onClose, onEdit, onD
               <Calendar className="text-gray-400 mt-1 flex-shrink-0" size={20} />
               <div>
                 <h3 className="text-sm font-semibold text-gray-500 mb-1">신고일</h3>
-                <p className="text-gray-700">{formatDate(hazard.createdAt)}</p>
+                <p className="text-gray-700">{formatDate(hazard.createdAt)} ({formatHazardAge(hazard)})</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {isHazardArchived(current)
+                    ? '없어졌다는 투표가 많아 지도에서 숨겨졌어요'
+                    : `${Math.ceil(getHazardRemainingDays(current))}일 뒤 지도에서 자동으로 숨겨져요`}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* 시간대 */}
+          {activeHours && (
+            <div className="flex items-start gap-3">
+              <Clock className="text-gray-400 mt-1 flex-shrink-0" size={20} />
+              <div>
+                <h3 className="text-sm font-semibold text-gray-500 mb-1">위험한 시간대</h3>
+                <p className="text-gray-700">{formatActiveHours(activeHours)}</p>
               </div>
             </div>
           )}
 
+          {/* 확인 투표 */}
+          <div className="flex items-start gap-3">
+            <Users className="text-gray-400 mt-1 flex-shrink-0" size={20} />
+            <div className="flex-1">
+              <h3 className="text-sm font-semibold text-gray-500 mb-1">다른 산책자 확인</h3>
+              <p className="text-gray-700">
+                아직 있어요 {current.stillThereCount ?? 0} · 없어졌어요 {current.goneCount ?? 0}
+                <span className="text-sm text-gray-500 ml-2">
+                  (신뢰도 {Math.round(getHazardConfidence(current) * 100)}%)
+                </span>
+              </p>
+              {current.lastConfirmedAt && (
+                <p className="text-xs text-gray-500 mt-1">
+                  마지막 확인: {current.lastConfirmedByNickname || '알 수 없음'} · {formatHazardAge({ createdAt: current.lastConfirmedAt })}
+                </p>
+              )}
+
+              {votes.length > 0 && (
+                <ul className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+                  {votes.map((vote) => (
+                    <li key={vote.id} className="flex items-center justify-between text-sm">
+                      <span className="flex items-center gap-1 text-gray-700">
+                        {vote.vote === 'STILL_THERE' ? (
+                          <ThumbsUp className="text-orange-500" size={14} />
+                        ) : (
+                          <ThumbsDown className="text-green-600" size={14} />
+                        )}
+                        {vote.voterNickname} · {VOTE_LABELS[vote.vote]}
+                      </span>
+                      <span className="text-xs text-gray-500">{formatHazardAge(vote)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {voteCount === 0 && (
+                <p className="text-xs text-gray-500 mt-1">아직 확인한 산책자가 없어요</p>
+              )}
+            </div>
+          </div>
+
           {/* 위치 정보 */}
           <div className="pt-4 border-t border-gray-200">
             <div className="flex items-start gap-3">
@@ -211,6 +343,41 @@ export default function HazardDetailModal({ hazard, isOpen, onClose, onEdit, onD
               {deleteError}
             </div>
           )}
+
+          {voteError && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-2 rounded-lg text-sm">
+              {voteError}
+            </div>
+          )}
+
+          {!isOwner && currentUserId !== null && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleVote('STILL_THERE')}
+                disabled={isVoting}
+                className={`flex-1 py-2 px-4 rounded-lg transition-colors font-semibold flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  current.myVote === 'STILL_THERE'
+                    ? 'bg-orange-500 text-white hover:bg-orange-600'
+                    : 'bg-white border border-orange-300 text-orange-600 hover:bg-orange-50'
+                }`}
+              >
+                <ThumbsUp size={18} />
+                {VOTE_LABELS.STILL_THERE}
+              </button>
+              <button
+                onClick={() => handleVote('GONE')}
+                disabled={isVoting}
+                className={`flex-1 py-2 px-4 rounded-lg transition-colors font-semibold flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  current.myVote === 'GONE'
+                    ? 'bg-green-600 text-white hover:bg-green-700'
+                    : 'bg-white border border-green-300 text-green-700 hover:bg-green-50'
+                }`}
+              >
+                <ThumbsDown size={18} />
+                {VOTE_LABELS.GONE}
+              </button>
+            </div>
+          )}
           
           {isOwner && (
             <div className="flex gap-2">
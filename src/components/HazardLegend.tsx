@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Layers, ChevronDown, ChevronUp } from 'lucide-react';
+import type { HazardCategory } from '../lib/api';
+import { HAZARD_CATEGORIES, ALL_HAZARD_CATEGORIES } from '../lib/hazards';
+
+interface HazardLegendProps {
+  /** 지도에 표시 중인 카테고리 */
+  selected: HazardCategory[];
+  onChange: (categories: HazardCategory[]) => void;
+  /** 지금 불러온 위험 요소의 카테고리별 개수 */
+  counts?: Partial<Record<HazardCategory, number>>;
+}
+
+// 지도 위 위험 요소 범례 겸 카테고리 필터
+export default function HazardLegend({ selected, onChange, counts }: HazardLegendProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const isAllSelected = selected.length === ALL_HAZARD_CATEGORIES.length;
+
+  const toggleCategory = (category: HazardCategory) => {
+    onChange(
+      selected.includes(category)
+        ? selected.filter((item) => item !== category)
+        : ALL_HAZARD_CATEGORIES.filter((item) => item === category || selected.includes(item))
+    );
+  };
+
+  return (
+    <div className="bg-white/95 rounded-lg shadow-md text-sm w-52">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between gap-2 px-3 py-2 font-semibold text-gray-700"
+      >
+        <span className="flex items-center gap-1">
+          <Layers size={16} />
+          위험 요소 {isAllSelected ? '전체' : `${selected.length}종`}
+        </span>
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-1">
+          {HAZARD_CATEGORIES.map((category) => (
+            <label key={category.value} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.includes(category.value)}
+                onChange={() => toggleCategory(category.value)}
+                className="rounded border-gray-300 text-primary focus:ring-primary"
+              />
+              <span
+                className="w-5 h-5 rounded-full flex items-center justify-center text-xs flex-shrink-0"
+                style={{ backgroundColor: category.color }}
+              >
+                {category.icon}
+              </span>
+              <span className="flex-1 text-gray-700">{category.label}</span>
+              {counts && <span className="text-xs text-gray-500">{counts[category.value] ?? 0}</span>}
+            </label>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange(isAllSelected ? [] : ALL_HAZARD_CATEGORIES)}
+            className="w-full mt-2 py-1 text-xs text-primary hover:underline"
+          >
+            {isAllSelected ? '모두 숨기기' : '모두 보기'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
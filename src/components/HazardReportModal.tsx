@@ -1,6 +1,10 @@
 import { useState, useEffect } from 'react';
 import { X, Upload, AlertTriangle } from 'lucide-react';
-import { hazardApi, HazardCategory, HazardReportRequest, fileApi } from '../lib/api';
+import { hazardApi, HazardCategory, HazardReportRequest, HazardActiveHours, fileApi } from '../lib/api';
+import { HAZARD_CATEGORIES, getHazardCategoryLabel, getHazardCategoryTtlDays } from '../lib/hazards';
+import { DEFAULT_ACTIVE_HOURS, formatActiveHours } from '../lib/hazardRelevance';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
 
 interface HazardReportModalProps {
   latitude: number;
@@ -12,20 +16,9 @@ interface HazardReportModalProps {
   initialCategory?: HazardCategory;
   initialDescription?: string;
   initialImageUrl?: string;
+  initialActiveHours?: HazardActiveHours | null;
 }
 
-const HAZARD_CATEGORIES: { value: HazardCategory; label: string }[] = [
-  { value: 'LEASH', label: '목줄 미착용' },
-  { value: 'MUZZLE', label: '입마개 미착용' },
-  { value: 'AGGRESSIVE_DOG', label: '공격적인 개' },
-  { value: 'HAZARDOUS_MATERIAL', label: '위험물질' },
-  { value: 'WILDLIFE', label: '야생동물 출몰' },
-  { value: 'LOW_LIGHT', label: '조명 부족' },
-  { value: 'BIKE_CAR', label: '자전거·차량 위험' },
-  { value: 'POOP_LEFT', label: '배변 미수거' },
-  { value: 'OTHER', label: '기타' },
-];
-
 export default function HazardReportModal({
   latitude,
   longitude,
@@ -35,12 +28,18 @@ export default function HazardReportModal({
   initialCategory,
   initialDescription,
   initialImageUrl,
+  initialActiveHours,
 }: HazardReportModalProps) {
   const isEditMode = !!hazardId;
   const [category, setCategory] = useState<HazardCategory>(initialCategory || 'OTHER');
   const [description, setDescription] = useState(initialDescription || '');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(initialImageUrl || null);
+  // 특정 시간대에만 있는 위험 (예: 저녁 산책 시간에만 풀어두는 개)
+  const [hasActiveHours, setHasActiveHours] = useState(!!initialActiveHours);
+  const [activeHours, setActiveHours] = useState<HazardActiveHours>(
+    initialActiveHours || { startHour: 18, endHour: 6 }
+  );
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -111,6 +110,7 @@ export default function HazardReportModal({
         latitude,
         longitude,
         imageUrl,
+        activeHours: hasActiveHours ? activeHours : null,
       };
 
       console.log(isEditMode ? '위험 요소 수정 요청:' : '위험 요소 신고 요청:', request);
@@ -227,6 +227,51 @@ export default function HazardReportModal({
             />
           </div>
 
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={hasActiveHours}
+                onChange={(e) => setHasActiveHours(e.target.checked)}
+                className="rounded border-gray-300 text-primary focus:ring-primary"
+                disabled={isSubmitting}
+              />
+              특정 시간대에만 있어요 (선택)
+            </label>
+            {hasActiveHours ? (
+              <div className="flex items-center gap-2 mt-2">
+                <select
+                  value={activeHours.startHour}
+                  onChange={(e) => setActiveHours({ ...activeHours, startHour: Number(e.target.value) })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  disabled={isSubmitting}
+                >
+                  {HOURS.map((hour) => (
+                    <option key={hour} value={hour}>{hour}시부터</option>
+                  ))}
+                </select>
+                <span className="text-gray-500">~</span>
+                <select
+                  value={activeHours.endHour}
+                  onChange={(e) => setActiveHours({ ...activeHours, endHour: Number(e.target.value) })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  disabled={isSubmitting}
+                >
+                  {HOURS.map((hour) => (
+                    <option key={hour} value={hour}>{hour}시까지</option>
+                  ))}
+                </select>
+              </div>
+            ) : DEFAULT_ACTIVE_HOURS[category] && (
+              <p className="text-xs text-gray-500 mt-1">
+                따로 정하지 않으면 {formatActiveHours(DEFAULT_ACTIVE_HOURS[category]!)}에만 지도에 표시돼요.
+              </p>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              {getHazardCategoryLabel(category)} 신고는 {getHazardCategoryTtlDays(category)}일이 지나면 지도에서 자동으로 숨겨져요.
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               사진 (선택)
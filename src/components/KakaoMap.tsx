@@ -1,6 +1,11 @@
-import { useEffect, useRef, useState } from 'react';
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
 import { useKakaoLoader } from '../lib/useKakaoLoader';
 import axios from 'axios';
+import type { HazardActiveHours, HazardCategory, HazardResponse, HazardVoteType } from '../lib/api';
+import { createHazardTileCache, getBoundsAround, getTilesForBounds } from '../lib/hazardTiles';
+import { getHazardConfidence, getHazardOpacity, isHazardRelevant, sortHazardsByConfidence } from '../lib/hazardRelevance';
+import { getHazardCategoryColor, getHazardCategoryIcon, getHazardCategoryLabel } from '../lib/hazards';
+import { locationProvider } from '../lib/locationProvider';
 
 export type SpotType = 'CAFE' | 'HOSPITAL' | 'PARK' | 'STORE' | 'RESTAURANT' | 'OTHER';
 
@@ -18,6 +23,29 @@ export interface SpotData {
   createdAt?: string;
 }
 
+/** 지도에 표시할 기록 마커 (산책 중 이벤트 등) */
+export interface MapEventMarker {
+  id: string;
+  latitude: number;
+  longitude: number;
+  /** 마커 테두리 색상 */
+  color: string;
+  /** 마커 안에 표시할 글자 (이모지 등) */
+  symbol: string;
+  title: string;
+  imageUrl?: string;
+}
+
+/** 지도에 칠할 격자 칸 (탐험 지도 등) */
+export interface MapCoverageCell {
+  key: string;
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+  color: string;
+}
+
 interface KakaoMapProps {
   /** 지도 중심 위도 */
   centerLat?: number;
@@ -43,27 +71,175 @@ interface KakaoMapProps {
   onSpotClick?: (spot: SpotData) => void;
   /** 지도 클릭 핸들러 (위험 요소 등록용) */
   onMapClick?: (latitude: number, longitude: number) => void;
-  /** 위험 요소 목록 새로고침 콜백 */
-  onHazardsRefresh?: () => void;
   /** 현재 위치 변경 핸들러 */
   onLocationChange?: (latitude: number, longitude: number) => void;
   /** 현재 위치 마커를 드래그 가능하게 할지 여부 */
   draggableLocationMarker?: boolean;
+  /** 지도에 그릴 경로 */
+  path?: Array<{ lat: number; lng: number }>;
+  /** 경로 선 색상 */
+  pathColor?: string;
+  /** 경로가 바뀌면 경로 전체가 보이도록 지도 범위 조정 */
+  fitPath?: boolean;
+  /** 경로 편집 모드 (지도 클릭으로 지점 추가, 지점 드래그로 위치 조정) */
+  routeEditor?: boolean;
+  /** 경로 편집 모드에서 경로가 바뀌었을 때 */
+  onPathChange?: (path: Array<{ lat: number; lng: number }>) => void;
+  /** 기록 마커 (산책 중 이벤트 등) */
+  eventMarkers?: MapEventMarker[];
+  /** 경로 다시보기(또는 실시간 공유) 중인 위치 */
+  replayPosition?: { lat: number; lng: number } | null;
+  /** 다시보기 위치가 바뀌면 지도 중심을 따라 이동 */
+  followReplay?: boolean;
+  /** 지도에 표시할 위험 요소 카테고리 (없으면 전체) */
+  hazardCategories?: HazardCategory[];
+  /** 주변 위험 요소를 불러왔을 때 (산책 중 접근 알림 등) */
+  onHazardsLoaded?: (hazards: HazardResponse[]) => void;
+  /** 지도 화면과 관계없이 현재 위치 주변의 위험 요소도 불러와 onHazardsLoaded로 전달 (산책 중) */
+  trackHazardsAroundLocation?: boolean;
+  /** 색을 칠할 격자 칸 */
+  coverageCells?: MapCoverageCell[];
 }
 
+/** 부모 컴포넌트에서 지도를 다시 만들지 않고 호출할 수 있는 기능 */
+export interface KakaoMapHandle {
+  /** 위험 요소 캐시를 비우고 지금 보이는 범위를 다시 불러옴 (신고/수정/삭제 후) */
+  refreshHazards: () => void;
+}
+
+// 지도 이동이 멈춘 뒤 위험 요소를 불러오기까지 기다리는 시간 (ms)
+const HAZARD_LOAD_DEBOUNCE_MS = 300;
+// 시간대/자동 숨김 여부를 다시 확인하는 주기 (ms)
+const HAZARD_RELEVANCE_CHECK_MS = 10 * 60 * 1000;
+// 산책 중 현재 위치 주변으로 위험 요소를 불러올 범위 (중심에서 한 변까지, 미터)
+const LOCATION_HAZARD_HALF_SIZE = 1000;
+
 interface HazardData {
   id: number;
-  category: string;
+  category: HazardCategory;
   description: string;
   latitude: number;
   longitude: number;
   imageUrl?: string;
   reporterId?: number;
   reporterNickname?: string;
+  activeHours?: HazardActiveHours | null;
+  stillThereCount?: number;
+  goneCount?: number;
+  lastConfirmedAt?: string | null;
+  lastConfirmedByNickname?: string | null;
+  myVote?: HazardVoteType | null;
+  isArchived?: boolean;
   createdAt: string;
 }
 
-export default function KakaoMap({
+// 경로 편집 지점 마커 이미지 (출발: 초록, 도착: 빨강, 중간: 흰색)
+const getWaypointMarkerImage = (index: number, count: number, strokeColor: string) => {
+  const fill = index === 0 ? '#16a34a' : index === count - 1 ? '#dc2626' : '#ffffff';
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><circle cx="8" cy="8" r="6" fill="${fill}" stroke="${strokeColor}" stroke-width="3"/></svg>`;
+  return new kakao.maps.MarkerImage(
+    `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`,
+    new kakao.maps.Size(16, 16),
+    { offset: new kakao.maps.Point(8, 8) }
+  );
+};
+
+// 기록 마커 이미지 (색상 테두리 원 안에 기호 표시)
+const getEventMarkerImage = (item: MapEventMarker) => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="28" height="28"><circle cx="14" cy="14" r="12" fill="#ffffff" stroke="${item.color}" stroke-width="3"/><text x="14" y="19" font-size="13" text-anchor="middle">${item.symbol}</text></svg>`;
+  return new kakao.maps.MarkerImage(
+    `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`,
+    new kakao.maps.Size(28, 28),
+    { offset: new kakao.maps.Point(14, 14) }
+  );
+};
+
+// 위험 요소 마커 이미지 (카테고리 색 핀 안에 아이콘 표시, 내 위치 마커와 구분)
+const getHazardMarkerImage = (category: string) => {
+  const color = getHazardCategoryColor(category);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="30" height="40" viewBox="0 0 30 40"><path d="M15 39C15 39 2 24 2 15a13 13 0 0 1 26 0c0 9-13 24-13 24z" fill="${color}" stroke="#ffffff" stroke-width="2"/><circle cx="15" cy="15" r="9" fill="#ffffff"/><text x="15" y="19.5" font-size="12" text-anchor="middle">${getHazardCategoryIcon(category)}</text></svg>`;
+  return new kakao.maps.MarkerImage(
+    `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`,
+    new kakao.maps.Size(30, 40),
+    { offset: new kakao.maps.Point(15, 39) }
+  );
+};
+
+// 스팟 타입별 클러스터 색상 (마커 이미지 색과 맞춤)
+const SPOT_CLUSTER_COLORS: Record<SpotType, string> = {
+  CAFE: '#f97316',
+  HOSPITAL: '#2563eb',
+  PARK: '#16a34a',
+  STORE: '#9333ea',
+  RESTAURANT: '#dc2626',
+  OTHER: '#eab308',
+};
+
+// 클러스터 크기 구간 (10개 미만 / 30개 미만 / 그 이상)
+const CLUSTER_CALCULATOR = [10, 30];
+
+// 클러스터 마커 스타일 (개수가 많을수록 큰 원)
+const getClusterStyles = (color: string): kakao.maps.clusterer.ClusterStyle[] =>
+  [32, 40, 50].map((size) => ({
+    width: `${size}px`,
+    height: `${size}px`,
+    background: color,
+    opacity: '0.85',
+    border: '2px solid #ffffff',
+    borderRadius: '50%',
+    color: '#ffffff',
+    textAlign: 'center',
+    fontWeight: 'bold',
+    fontSize: '13px',
+    lineHeight: `${size - 4}px`,
+    boxShadow: '0 1px 4px rgba(0,0,0,0.3)',
+  }));
+
+/**
+ * 카테고리별로 마커를 묶어 클러스터러 생성
+ * 클러스터를 누르면 묶인 마커가 모두 보이도록 확대
+ */
+const createCategoryClusterers = (
+  map: kakao.maps.Map,
+  groups: Map<string, kakao.maps.Marker[]>,
+  getColor: (category: string) => string
+) =>
+  Array.from(groups.entries()).map(([category, markers]) => {
+    const clusterer = new kakao.maps.clusterer.MarkerClusterer({
+      map,
+      markers,
+      gridSize: 60,
+      minClusterSize: 2,
+      averageCenter: true,
+      minLevel: 4,
+      disableClickZoom: true,
+      calculator: CLUSTER_CALCULATOR,
+      styles: getClusterStyles(getColor(category)),
+    });
+    kakao.maps.event.addListener(clusterer, 'clusterclick', (cluster) => {
+      const level = map.getLevel();
+      map.setBounds(cluster.getBounds());
+      // 같은 위치에 몰려 있어 범위가 바뀌지 않으면 한 단계만 확대
+      if (map.getLevel() >= level) {
+        map.setLevel(level - 1, { anchor: cluster.getCenter() });
+      }
+    });
+    return clusterer;
+  });
+
+// 항목을 카테고리별로 묶음
+const groupMarkers = <T,>(items: T[], getCategory: (item: T) => string, createMarker: (item: T) => kakao.maps.Marker) => {
+  const groups = new Map<string, kakao.maps.Marker[]>();
+  items.forEach((item) => {
+    const category = getCategory(item);
+    const markers = groups.get(category) || [];
+    markers.push(createMarker(item));
+    groups.set(category, markers);
+  });
+  return groups;
+};
+
+const KakaoMap = forwardRef<KakaoMapHandle, KakaoMapProps>(function KakaoMap({
   centerLat = 37.5665,
   centerLng = 126.9780,
   level = 3,
@@ -77,26 +253,56 @@ export default function KakaoMap({
   onMarkerClick,
   onSpotClick,
   onMapClick,
-  onHazardsRefresh,
   onLocationChange,
-}: KakaoMapProps) {
+  path,
+  pathColor = '#2563eb',
+  fitPath = false,
+  routeEditor = false,
+  onPathChange,
+  eventMarkers,
+  replayPosition,
+  followReplay = false,
+  onHazardsLoaded,
+  trackHazardsAroundLocation = false,
+  hazardCategories,
+  coverageCells,
+}, ref) {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<kakao.maps.Map | null>(null);
-  const markersRef = useRef<kakao.maps.Marker[]>([]);
-  const spotMarkersRef = useRef<kakao.maps.Marker[]>([]);
+  const hazardClusterersRef = useRef<kakao.maps.clusterer.MarkerClusterer[]>([]);
+  const spotClusterersRef = useRef<kakao.maps.clusterer.MarkerClusterer[]>([]);
   const currentLocationMarkerRef = useRef<kakao.maps.Marker | null>(null);
+  const pathPolylineRef = useRef<kakao.maps.Polyline | null>(null);
+  const waypointMarkersRef = useRef<kakao.maps.Marker[]>([]);
+  const eventMarkersRef = useRef<kakao.maps.Marker[]>([]);
+  const eventInfoWindowRef = useRef<kakao.maps.InfoWindow | null>(null);
+  const replayMarkerRef = useRef<kakao.maps.Marker | null>(null);
+  const coverageRectanglesRef = useRef<kakao.maps.Rectangle[]>([]);
   const watchIdRef = useRef<number | null>(null);
   const isManuallyAdjustedRef = useRef<boolean>(false);
   const { isLoaded, error } = useKakaoLoader();
   const [currentLocation, setCurrentLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [hazards, setHazards] = useState<HazardData[]>([]);
+  const hazardCacheRef = useRef(createHazardTileCache());
+  const loadHazardsRef = useRef<(() => void) | null>(null);
+  const scheduleHazardLoadRef = useRef<(() => void) | null>(null);
+  const onHazardsLoadedRef = useRef(onHazardsLoaded);
+  onHazardsLoadedRef.current = onHazardsLoaded;
+  // 부모가 렌더링마다 새 함수를 넘겨도 마커를 다시 만들지 않도록 ref로 읽음
+  const onMarkerClickRef = useRef(onMarkerClick);
+  onMarkerClickRef.current = onMarkerClick;
+  const onSpotClickRef = useRef(onSpotClick);
+  onSpotClickRef.current = onSpotClick;
+  // 위치가 바뀔 때마다 조회 효과를 다시 만들지 않도록 ref로 읽음
+  const hazardTrackingLocationRef = useRef<{ lat: number; lng: number } | null>(null);
+  hazardTrackingLocationRef.current = trackHazardsAroundLocation ? currentLocation : null;
 
   // 현재 위치 가져오기 (지속적으로 업데이트, 수동 조정 시 일시 중지)
   useEffect(() => {
     if (!autoLocation || !isLoaded) {
       // GPS 추적 중지
       if (watchIdRef.current !== null) {
-        navigator.geolocation.clearWatch(watchIdRef.current);
+        locationProvider.clearWatch(watchIdRef.current);
         watchIdRef.current = null;
       }
       return;
@@ -107,19 +313,19 @@ export default function KakaoMap({
       return;
     }
 
-    if (!navigator.geolocation) {
+    if (!locationProvider.isAvailable()) {
       console.warn('GPS가 지원되지 않습니다.');
       return;
     }
 
     // 기존 watch 중지
     if (watchIdRef.current !== null) {
-      navigator.geolocation.clearWatch(watchIdRef.current);
+      locationProvider.clearWatch(watchIdRef.current);
       watchIdRef.current = null;
     }
 
     // 첫 위치 가져오기 (타임아웃 시간 증가 및 에러 처리 개선)
-    navigator.geolocation.getCurrentPosition(
+    locationProvider.getCurrentPosition(
       (position) => {
         if (isManuallyAdjustedRef.current) return; // 수동 조정 중이면 무시
         
@@ -134,7 +340,7 @@ export default function KakaoMap({
         // 타임아웃 에러는 조용히 처리 (사용자 경험 개선)
         if (error.code === 3) {
           // 타임아웃: 캐시된 위치 사용 시도
-          navigator.geolocation.getCurrentPosition(
+          locationProvider.getCurrentPosition(
             (position) => {
               if (isManuallyAdjustedRef.current) return;
               const { latitude, longitude } = position.coords;
@@ -169,7 +375,7 @@ export default function KakaoMap({
     );
 
     // 위치 추적 시작 (지속적으로 업데이트, 수동 조정 시 업데이트 안 함)
-    watchIdRef.current = navigator.geolocation.watchPosition(
+    watchIdRef.current = locationProvider.watchPosition(
       (position) => {
         if (isManuallyAdjustedRef.current) return; // 수동 조정 중이면 GPS 업데이트 무시
         
@@ -193,7 +399,7 @@ export default function KakaoMap({
 
     return () => {
       if (watchIdRef.current !== null) {
-        navigator.geolocation.clearWatch(watchIdRef.current);
+        locationProvider.clearWatch(watchIdRef.current);
         watchIdRef.current = null;
       }
     };
@@ -299,40 +505,252 @@ export default function KakaoMap({
     };
   }, [isLoaded, enableHazardReport, onMapClick]);
 
-  // 위험 지역 가져오기
+  // 지도에 보이는 범위의 위험 지역 가져오기 (이동/확대가 끝나면 다시 조회)
   useEffect(() => {
-    if (!showHazards || !isLoaded || !mapInstanceRef.current) return;
+    const map = mapInstanceRef.current;
+    if (!showHazards || !isLoaded || !map) return;
 
-    const lat = currentLocation?.lat ?? centerLat;
-    const lng = currentLocation?.lng ?? centerLng;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let controller: AbortController | null = null;
+
+    const loadHazards = async () => {
+      // 이전 조회는 결과가 필요 없으므로 취소
+      controller?.abort();
+      const current = new AbortController();
+      controller = current;
 
-    const fetchHazards = async () => {
+      const bounds = map.getBounds();
+      const southWest = bounds.getSouthWest();
+      const northEast = bounds.getNorthEast();
+      const trackingLocation = hazardTrackingLocationRef.current;
       try {
-        const response = await axios.get('/api/hazards/nearby', {
-          params: {
-            latitude: lat,
-            longitude: lng,
-            radius: 2000, // 2km 반경
-          },
-        });
-
-        if (response.data.success && response.data.data) {
-          setHazards(response.data.data);
-        }
-      } catch (error: any) {
+        const [loaded, aroundLocation] = await Promise.all([
+          hazardCacheRef.current.load({
+            south: southWest.getLat(),
+            west: southWest.getLng(),
+            north: northEast.getLat(),
+            east: northEast.getLng(),
+          }, current.signal),
+          trackingLocation
+            ? hazardCacheRef.current.load(getBoundsAround(trackingLocation, LOCATION_HAZARD_HALF_SIZE), current.signal)
+            : Promise.resolve([]),
+        ]);
+        if (current.signal.aborted) return;
+        // 보관되었거나 자동 숨김 기간이 지났거나 지금 시간대와 관계없는 신고는 제외 (믿을 만한 신고 먼저)
+        const now = new Date();
+        const filterRelevant = (items: HazardResponse[]) =>
+          sortHazardsByConfidence(items.filter((hazard) => isHazardRelevant(hazard, now)));
+        const relevant = filterRelevant(loaded);
+        setHazards(relevant);
+        // 알림용 목록은 화면에 보이는 범위와 현재 위치 주변을 합침 (타일이 겹치면 중복 제거)
+        const merged = new Map([...loaded, ...aroundLocation].map((hazard) => [hazard.id, hazard]));
+        onHazardsLoadedRef.current?.(filterRelevant(Array.from(merged.values())));
+      } catch (error) {
+        if (axios.isCancel(error)) return;
         console.error('위험 지역 조회 실패:', error);
-        console.error('에러 상세:', {
-          message: error.message,
-          response: error.response?.data,
-          status: error.response?.status,
-          statusText: error.response?.statusText,
-        });
       }
     };
 
-    fetchHazards();
-  }, [showHazards, isLoaded, centerLat, centerLng, currentLocation]);
+    const scheduleLoad = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(loadHazards, HAZARD_LOAD_DEBOUNCE_MS);
+    };
+
+    loadHazardsRef.current = loadHazards;
+    scheduleHazardLoadRef.current = scheduleLoad;
+    kakao.maps.event.addListener(map, 'idle', scheduleLoad);
+    scheduleLoad();
+    // 지도를 움직이지 않아도 시간대가 바뀌면 다시 거름
+    const relevanceTimer = setInterval(scheduleLoad, HAZARD_RELEVANCE_CHECK_MS);
+
+    return () => {
+      kakao.maps.event.removeListener(map, 'idle', scheduleLoad);
+      clearInterval(relevanceTimer);
+      if (timer) clearTimeout(timer);
+      controller?.abort();
+      loadHazardsRef.current = null;
+      scheduleHazardLoadRef.current = null;
+    };
+  }, [showHazards, isLoaded, centerLat, centerLng, level]);
+
+  // 산책 중에는 지도를 움직이지 않아도 현재 위치 주변 타일이 바뀔 때마다 다시 조회
+  const locationTileKey = trackHazardsAroundLocation && currentLocation
+    ? getTilesForBounds(getBoundsAround(currentLocation, LOCATION_HAZARD_HALF_SIZE)).map((tile) => tile.key).join(',')
+    : null;
+  useEffect(() => {
+    if (locationTileKey) scheduleHazardLoadRef.current?.();
+  }, [locationTileKey]);
+
+  useImperativeHandle(ref, () => ({
+    refreshHazards: () => {
+      hazardCacheRef.current.clear();
+      loadHazardsRef.current?.();
+    },
+  }), []);
+
+
+  // 경로 표시
+  useEffect(() => {
+    if (!isLoaded || !mapInstanceRef.current) return;
+
+    if (pathPolylineRef.current) {
+      pathPolylineRef.current.setMap(null);
+      pathPolylineRef.current = null;
+    }
+    if (!path || path.length < 2) return;
+
+    const linePath = path.map((point) => new kakao.maps.LatLng(point.lat, point.lng));
+    pathPolylineRef.current = new kakao.maps.Polyline({
+      map: mapInstanceRef.current,
+      path: linePath,
+      strokeWeight: 5,
+      strokeColor: pathColor,
+      strokeOpacity: 0.8,
+      strokeStyle: 'solid',
+    });
+
+    if (fitPath) {
+      const bounds = new kakao.maps.LatLngBounds();
+      linePath.forEach((latlng) => bounds.extend(latlng));
+      mapInstanceRef.current.setBounds(bounds);
+    }
+  }, [isLoaded, path, pathColor, fitPath]);
+
+  // 격자 칸 칠하기
+  useEffect(() => {
+    coverageRectanglesRef.current.forEach((rectangle) => rectangle.setMap(null));
+    coverageRectanglesRef.current = [];
+    if (!isLoaded || !mapInstanceRef.current || !coverageCells) return;
+
+    coverageRectanglesRef.current = coverageCells.map((cell) => new kakao.maps.Rectangle({
+      map: mapInstanceRef.current!,
+      bounds: new kakao.maps.LatLngBounds(
+        new kakao.maps.LatLng(cell.south, cell.west),
+        new kakao.maps.LatLng(cell.north, cell.east)
+      ),
+      strokeWeight: 0,
+      fillColor: cell.color,
+      fillOpacity: 0.55,
+      zIndex: 0,
+    }));
+  }, [isLoaded, coverageCells]);
+
+  // 경로 편집: 지도 클릭으로 지점 추가
+  useEffect(() => {
+    if (!isLoaded || !mapInstanceRef.current || !routeEditor || !onPathChange) return;
+
+    const clickHandler = (mouseEvent: kakao.maps.event.MouseEvent) => {
+      const latlng = mouseEvent.latLng;
+      onPathChange([...(path || []), { lat: latlng.getLat(), lng: latlng.getLng() }]);
+    };
+
+    kakao.maps.event.addListener(mapInstanceRef.current, 'click', clickHandler);
+
+    return () => {
+      if (mapInstanceRef.current) {
+        kakao.maps.event.removeListener(mapInstanceRef.current, 'click', clickHandler);
+      }
+    };
+  }, [isLoaded, routeEditor, path, onPathChange]);
+
+  // 경로 편집: 드래그 가능한 지점 마커 표시
+  useEffect(() => {
+    waypointMarkersRef.current.forEach((marker) => marker.setMap(null));
+    waypointMarkersRef.current = [];
+    if (!isLoaded || !mapInstanceRef.current || !routeEditor || !path) return;
+
+    path.forEach((point, index) => {
+      const marker = new kakao.maps.Marker({
+        position: new kakao.maps.LatLng(point.lat, point.lng),
+        map: mapInstanceRef.current!,
+        draggable: true,
+        title: index === 0 ? '출발' : index === path.length - 1 ? '도착' : `지점 ${index + 1}`,
+        zIndex: 3,
+      });
+      marker.setImage(getWaypointMarkerImage(index, path.length, pathColor));
+
+      kakao.maps.event.addListener(marker, 'dragend', () => {
+        const position = marker.getPosition();
+        onPathChange?.(
+          path.map((p, i) => (i === index ? { lat: position.getLat(), lng: position.getLng() } : p))
+        );
+      });
+
+      waypointMarkersRef.current.push(marker);
+    });
+  }, [isLoaded, routeEditor, path, pathColor, onPathChange]);
+
+  // 경로 다시보기 마커 (매 프레임 위치만 이동)
+  useEffect(() => {
+    if (!isLoaded || !mapInstanceRef.current || !replayPosition) {
+      replayMarkerRef.current?.setMap(null);
+      replayMarkerRef.current = null;
+      return;
+    }
+
+    const position = new kakao.maps.LatLng(replayPosition.lat, replayPosition.lng);
+    if (followReplay) {
+      mapInstanceRef.current.panTo(position);
+    }
+    if (replayMarkerRef.current) {
+      replayMarkerRef.current.setPosition(position);
+      return;
+    }
+    const marker = new kakao.maps.Marker({
+      position,
+      map: mapInstanceRef.current,
+      zIndex: 4,
+    });
+    marker.setImage(getEventMarkerImage({
+      id: 'replay',
+      latitude: replayPosition.lat,
+      longitude: replayPosition.lng,
+      color: pathColor,
+      symbol: '🐕',
+      title: '',
+    }));
+    replayMarkerRef.current = marker;
+  }, [isLoaded, replayPosition, pathColor, followReplay]);
+
+  // 기록 마커 표시 (클릭 시 내용 표시)
+  useEffect(() => {
+    eventMarkersRef.current.forEach((marker) => marker.setMap(null));
+    eventMarkersRef.current = [];
+    eventInfoWindowRef.current?.close();
+    if (!isLoaded || !mapInstanceRef.current || !eventMarkers) return;
+
+    eventMarkers.forEach((item) => {
+      const marker = new kakao.maps.Marker({
+        position: new kakao.maps.LatLng(item.latitude, item.longitude),
+        map: mapInstanceRef.current!,
+        title: item.title,
+        zIndex: 2,
+      });
+      marker.setImage(getEventMarkerImage(item));
+
+      kakao.maps.event.addListener(marker, 'click', () => {
+        const contentDiv = document.createElement('div');
+        contentDiv.style.cssText = 'padding:8px 10px;font-size:12px;min-width:120px;';
+        const titleDiv = document.createElement('div');
+        titleDiv.style.fontWeight = 'bold';
+        titleDiv.textContent = item.title;
+        contentDiv.appendChild(titleDiv);
+        if (item.imageUrl) {
+          const image = document.createElement('img');
+          image.src = item.imageUrl;
+          image.style.cssText = 'width:120px;height:90px;object-fit:cover;border-radius:4px;margin-top:6px;';
+          contentDiv.appendChild(image);
+        }
+
+        eventInfoWindowRef.current?.close();
+        const infowindow = new kakao.maps.InfoWindow({ content: contentDiv, removable: true });
+        infowindow.open(mapInstanceRef.current!, marker);
+        eventInfoWindowRef.current = infowindow;
+      });
 
+      eventMarkersRef.current.push(marker);
+    });
+  }, [isLoaded, eventMarkers]);
 
   // 스팟 타입별 마커 색상 및 아이콘
   const getSpotMarkerImage = (type: SpotType): string => {
@@ -359,43 +777,43 @@ export default function KakaoMap({
     return labels[type] || '기타';
   };
 
-  // 위험 지역 마커 표시
+  // 위험 지역 마커 표시 (카테고리별 클러스터)
   useEffect(() => {
-    if (!isLoaded || !mapInstanceRef.current || hazards.length === 0) return;
-
     // 기존 위험 지역 마커 제거
-    markersRef.current.forEach((marker) => marker.setMap(null));
-    markersRef.current = [];
+    hazardClusterersRef.current.forEach((clusterer) => clusterer.clear());
+    hazardClusterersRef.current = [];
+    const visibleHazards = hazardCategories
+      ? hazards.filter((hazard) => hazardCategories.includes(hazard.category))
+      : hazards;
+    if (!isLoaded || !mapInstanceRef.current || visibleHazards.length === 0) return;
 
-    // 위험 지역 마커 추가
-    hazards.forEach((hazard) => {
+    const groups = groupMarkers(visibleHazards, (hazard) => hazard.category, (hazard) => {
       const markerPosition = new kakao.maps.LatLng(hazard.latitude, hazard.longitude);
       const marker = new kakao.maps.Marker({
         position: markerPosition,
-        map: mapInstanceRef.current!,
+        title: getHazardCategoryLabel(hazard.category),
+        // 겹치면 신뢰도가 높은 신고가 위로
+        zIndex: Math.round(getHazardConfidence(hazard) * 100),
       });
 
-      // 위험 지역 마커는 빨간색으로 표시
-      const imageSrc = 'https://t1.daumcdn.net/localimg/localimages/07/mapapidoc/marker_red.png';
-      const imageSize = new kakao.maps.Size(24, 35);
-      const imageOption = { offset: new kakao.maps.Point(12, 35) };
-      const markerImage = new kakao.maps.MarkerImage(imageSrc, imageSize, imageOption);
-      marker.setImage(markerImage);
+      // 카테고리별 색상/아이콘 마커 (오래되었거나 없어졌다는 투표가 많을수록 흐리게)
+      marker.setImage(getHazardMarkerImage(hazard.category));
+      marker.setOpacity(getHazardOpacity(hazard));
 
       // 마커 클릭 이벤트
       kakao.maps.event.addListener(marker, 'click', () => {
-        console.log('위험 스팟 마커 클릭:', hazard.id, 'onMarkerClick:', !!onMarkerClick);
-        if (onMarkerClick) {
+        console.log('위험 스팟 마커 클릭:', hazard.id, 'onMarkerClick:', !!onMarkerClickRef.current);
+        if (onMarkerClickRef.current) {
           // onMarkerClick이 있으면 모달 표시
           console.log('onMarkerClick 호출:', hazard);
-          onMarkerClick(hazard);
+          onMarkerClickRef.current(hazard);
         } else {
           // 기본 동작: 인포윈도우 표시 (상세보기 버튼 포함)
           const contentDiv = document.createElement('div');
           contentDiv.style.padding = '10px';
           contentDiv.style.minWidth = '200px';
           contentDiv.innerHTML = `
-            <strong style="color:#dc2626;">⚠️ ${hazard.category}</strong><br/>
+            <strong style="color:${getHazardCategoryColor(hazard.category)};">${getHazardCategoryIcon(hazard.category)} ${getHazardCategoryLabel(hazard.category)}</strong><br/>
             ${hazard.description ? `<div style="margin-top:5px;">${hazard.description}</div>` : '<div style="margin-top:5px;">설명 없음</div>'}
             <small style="color:#666;">신고자: ${hazard.reporterNickname || '알 수 없음'}</small>
             <div style="margin-top:10px;text-align:center;">
@@ -415,8 +833,8 @@ export default function KakaoMap({
               e.preventDefault();
               e.stopPropagation();
               console.log('인포윈도우 상세보기 버튼 클릭:', hazard);
-              if (onMarkerClick) {
-                onMarkerClick(hazard);
+              if (onMarkerClickRef.current) {
+                onMarkerClickRef.current(hazard);
                 infowindow.close();
               }
             });
@@ -428,8 +846,8 @@ export default function KakaoMap({
             // 버튼 클릭이 아닌 경우에만
             if (!(e.target as HTMLElement).closest('button')) {
               console.log('인포윈도우 클릭:', hazard);
-              if (onMarkerClick) {
-                onMarkerClick(hazard);
+              if (onMarkerClickRef.current) {
+                onMarkerClickRef.current(hazard);
                 infowindow.close();
               }
             }
@@ -442,29 +860,22 @@ export default function KakaoMap({
         }
       });
 
-      markersRef.current.push(marker);
+      return marker;
     });
-  }, [hazards, isLoaded, onMarkerClick]);
+    hazardClusterersRef.current = createCategoryClusterers(mapInstanceRef.current, groups, getHazardCategoryColor);
+  }, [hazards, hazardCategories, isLoaded]);
 
-  // 스팟 마커 표시
+  // 스팟 마커 표시 (타입별 클러스터)
   useEffect(() => {
-    if (!isLoaded || !mapInstanceRef.current || !showSpots || spots.length === 0) {
-      // 스팟이 표시되지 않을 때는 기존 스팟 마커 제거
-      spotMarkersRef.current.forEach((marker) => marker.setMap(null));
-      spotMarkersRef.current = [];
-      return;
-    }
-
     // 기존 스팟 마커 제거
-    spotMarkersRef.current.forEach((marker) => marker.setMap(null));
-    spotMarkersRef.current = [];
+    spotClusterersRef.current.forEach((clusterer) => clusterer.clear());
+    spotClusterersRef.current = [];
+    if (!isLoaded || !mapInstanceRef.current || !showSpots || spots.length === 0) return;
 
-    // 스팟 마커 추가
-    spots.forEach((spot) => {
+    const groups = groupMarkers(spots, (spot) => spot.type, (spot) => {
       const markerPosition = new kakao.maps.LatLng(spot.latitude, spot.longitude);
       const marker = new kakao.maps.Marker({
         position: markerPosition,
-        map: mapInstanceRef.current!,
       });
 
       // 스팟 타입별 마커 이미지 설정
@@ -476,11 +887,11 @@ export default function KakaoMap({
 
       // 마커 클릭 이벤트
       kakao.maps.event.addListener(marker, 'click', () => {
-        console.log('스팟 마커 클릭:', spot.name, 'onSpotClick:', !!onSpotClick);
-        if (onSpotClick) {
+        console.log('스팟 마커 클릭:', spot.name, 'onSpotClick:', !!onSpotClickRef.current);
+        if (onSpotClickRef.current) {
           // onSpotClick이 있으면 모달 표시
           console.log('onSpotClick 호출:', spot);
-          onSpotClick(spot);
+          onSpotClickRef.current(spot);
         } else {
           // 기본 동작: 인포윈도우 표시 (상세보기 버튼 포함)
           const ratingHtml = spot.rating 
@@ -527,8 +938,8 @@ export default function KakaoMap({
               e.preventDefault();
               e.stopPropagation();
               console.log('인포윈도우 상세보기 버튼 클릭:', spot);
-              if (onSpotClick) {
-                onSpotClick(spot);
+              if (onSpotClickRef.current) {
+                onSpotClickRef.current(spot);
               }
               infowindow.close();
             });
@@ -540,8 +951,8 @@ export default function KakaoMap({
             // 버튼 클릭이 아닌 경우에만
             if (!(e.target as HTMLElement).closest('button')) {
               console.log('인포윈도우 클릭:', spot);
-              if (onSpotClick) {
-                onSpotClick(spot);
+              if (onSpotClickRef.current) {
+                onSpotClickRef.current(spot);
                 infowindow.close();
               }
             }
@@ -554,9 +965,14 @@ export default function KakaoMap({
         }
       });
 
-      spotMarkersRef.current.push(marker);
+      return marker;
     });
-  }, [spots, showSpots, isLoaded, onSpotClick]);
+    spotClusterersRef.current = createCategoryClusterers(
+      mapInstanceRef.current,
+      groups,
+      (type) => SPOT_CLUSTER_COLORS[type as SpotType] || SPOT_CLUSTER_COLORS.OTHER
+    );
+  }, [spots, showSpots, isLoaded]);
 
   if (error) {
     return (
@@ -580,8 +996,8 @@ export default function KakaoMap({
     // 수동 조정 모드 해제하고 GPS 위치로 복귀
     isManuallyAdjustedRef.current = false;
     
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
+    if (locationProvider.isAvailable()) {
+      locationProvider.getCurrentPosition(
         (position) => {
           const { latitude, longitude } = position.coords;
           // 상태 업데이트로 마커 재생성 (색상 변경)
@@ -595,7 +1011,7 @@ export default function KakaoMap({
           // 모든 에러는 조용히 처리 (콘솔 로그 제거)
           if (error.code === 3) {
             // 타임아웃: 캐시된 위치 사용 시도
-            navigator.geolocation.getCurrentPosition(
+            locationProvider.getCurrentPosition(
               (position) => {
                 const { latitude, longitude } = position.coords;
                 setCurrentLocation({ lat: latitude, lng: longitude });
@@ -655,6 +1071,8 @@ export default function KakaoMap({
       )}
     </div>
   );
-}
+});
+
+export default KakaoMap;
 
 
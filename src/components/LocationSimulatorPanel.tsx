@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { Satellite, X, Play, Square, Upload } from 'lucide-react';
+import type { WalkRoute } from '../lib/api';
+import type { LatLngPoint } from '../lib/geo';
+import { importTrackFile } from '../lib/trackImport';
+import { locationSimulator, DEFAULT_SIMULATION_CONFIG } from '../lib/locationProvider';
+import { formatDistance } from '../lib/format';
+import { DEFAULT_TRACK_OPTIONS } from '../lib/trackProcessing';
+
+interface LocationSimulatorPanelProps {
+  /** 시뮬레이션에 사용할 수 있는 산책 경로 */
+  routes: WalkRoute[];
+}
+
+// 이동 속도 선택지 (m/s)
+// 위치 필터의 최대 속도(DEFAULT_TRACK_OPTIONS.maxSpeed)를 넘으면 기록에서 빠지므로 위치 오차를 감안해 여유를 둠
+const SPEED_OPTIONS = [
+  { value: 0, label: '정지' },
+  { value: 0.6, label: '천천히 (2.2km/h)' },
+  { value: 1.2, label: '보통 (4.3km/h)' },
+  { value: 2.5, label: '빠르게 (9km/h)' },
+  { value: 3.5, label: '시연용 (12.6km/h)' },
+];
+
+// 시뮬레이터는 오차의 두 배를 정확도로 보고하므로 정확도 필터를 통과하는 범위까지만
+const MAX_NOISE = Math.floor(DEFAULT_TRACK_OPTIONS.maxAccuracy / 2);
+
+// 개발/시연용 가짜 GPS 설정 패널
+export default function LocationSimulatorPanel({ routes }: LocationSimulatorPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isActive, setIsActive] = useState(() => locationSimulator.isActive());
+  const [source, setSource] = useState<{ name: string; path: LatLngPoint[] } | null>(null);
+  const [speed, setSpeed] = useState(DEFAULT_SIMULATION_CONFIG.speed);
+  const [noise, setNoise] = useState(DEFAULT_SIMULATION_CONFIG.noise);
+  const [dropoutRate, setDropoutRate] = useState(DEFAULT_SIMULATION_CONFIG.dropoutRate);
+  const [loop, setLoop] = useState(DEFAULT_SIMULATION_CONFIG.loop);
+  const [progress, setProgress] = useState<{ distance: number; totalDistance: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const routesWithPath = routes.filter((route) => (route.coordinates?.length ?? 0) >= 2);
+
+  useEffect(() => locationSimulator.subscribe(() => setIsActive(locationSimulator.isActive())), []);
+
+  // 진행 상황 표시
+  useEffect(() => {
+    if (!isActive) {
+      setProgress(null);
+      return;
+    }
+    const interval = setInterval(() => setProgress(locationSimulator.getProgress()), 1000);
+    return () => clearInterval(interval);
+  }, [isActive]);
+
+  // 실행 중에 바꾼 설정은 바로 반영
+  useEffect(() => {
+    locationSimulator.update({ speed, noise, dropoutRate, loop });
+  }, [speed, noise, dropoutRate, loop]);
+
+  const selectRoute = (routeId: string) => {
+    const route = routesWithPath.find((item) => item.id === Number(routeId));
+    setSource(route ? {
+      name: route.name,
+      path: (route.coordinates || []).map((coord) => ({ lat: coord.latitude, lng: coord.longitude })),
+    } : null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setError(null);
+      const track = await importTrackFile(file);
+      setSource({ name: track.name, path: track.points });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : '파일을 읽지 못했습니다.');
+    }
+  };
+
+  const startSimulation = () => {
+    if (!source) return;
+    locationSimulator.start({ ...DEFAULT_SIMULATION_CONFIG, path: source.path, speed, noise, dropoutRate, loop });
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className={`fixed bottom-20 left-4 z-40 px-3 py-2 rounded-full shadow-lg text-sm font-semibold flex items-center gap-1 ${
+          isActive ? 'bg-purple-600 text-white' : 'bg-white text-gray-700'
+        }`}
+      >
+        <Satellite size={16} />
+        {isActive ? 'GPS 시뮬레이션 중' : 'GPS 시뮬레이터'}
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-20 left-4 z-40 w-72 bg-white rounded-lg shadow-xl border border-gray-200 p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold flex items-center gap-1">
+          <Satellite size={16} className="text-purple-600" />
+          GPS 시뮬레이터
+        </h3>
+        <button type="button" onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-gray-600">
+          <X size={18} />
+        </button>
+      </div>
+
+      {error && <p className="text-red-600 text-xs">{error}</p>}
+
+      <div className="space-y-2">
+        <select
+          value=""
+          onChange={(e) => selectRoute(e.target.value)}
+          className="w-full px-2 py-1 border border-gray-300 rounded"
+          disabled={isActive}
+        >
+          <option value="">산책 경로에서 선택</option>
+          {routesWithPath.map((route) => (
+            <option key={route.id} value={route.id}>{route.name}</option>
+          ))}
+        </select>
+        <label className={`flex items-center justify-center gap-1 px-2 py-1 border border-dashed border-gray-300 rounded text-gray-600 ${
+          isActive ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'
+        }`}>
+          <Upload size={14} />
+          GPX/GeoJSON 파일
+          <input type="file" accept=".gpx,.geojson,.json" onChange={handleFileChange} className="hidden" disabled={isActive} />
+        </label>
+        <p className="text-xs text-gray-500 truncate">
+          {source ? `${source.name} · ${source.path.length}개 지점` : '경로를 선택하세요'}
+        </p>
+      </div>
+
+      <label className="block">
+        <span className="text-xs text-gray-600">속도</span>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="w-full px-2 py-1 border border-gray-300 rounded"
+        >
+          {SPEED_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block">
+        <span className="text-xs text-gray-600">위치 오차 {noise}m</span>
+        <input type="range" min={0} max={MAX_NOISE} value={noise} onChange={(e) => setNoise(Number(e.target.value))} className="w-full" />
+      </label>
+
+      <label className="block">
+        <span className="text-xs text-gray-600">신호 끊김 {Math.round(dropoutRate * 100)}%</span>
+        <input
+          type="range"
+          min={0}
+          max={0.8}
+          step={0.05}
+          value={dropoutRate}
+          onChange={(e) => setDropoutRate(Number(e.target.value))}
+          className="w-full"
+        />
+      </label>
+
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        <input type="checkbox" checked={loop} onChange={(e) => setLoop(e.target.checked)} />
+        끝에 도착하면 반복
+      </label>
+
+      {progress && (
+        <p className="text-xs text-purple-700">
+          {formatDistance(Math.round(progress.distance))} / {formatDistance(Math.round(progress.totalDistance))}
+        </p>
+      )}
+
+      {isActive ? (
+        <button
+          type="button"
+          onClick={() => locationSimulator.stop()}
+          className="w-full py-2 bg-gray-700 text-white rounded-lg font-semibold flex items-center justify-center gap-1"
+        >
+          <Square size={14} />
+          실제 GPS로 돌아가기
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={startSimulation}
+          disabled={!source}
+          className="w-full py-2 bg-purple-600 text-white rounded-lg font-semibold flex items-center justify-center gap-1 disabled:opacity-50"
+        >
+          <Play size={14} />
+          시뮬레이션 시작
+        </button>
+      )}
+    </div>
+  );
+}
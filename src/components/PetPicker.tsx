@@ -0,0 +1,70 @@
+import { Check, Plus } from 'lucide-react'
+import type { PetResponse } from '../lib/api'
+
+interface PetPickerProps {
+  pets: PetResponse[]
+  selectedPetIds: number[]
+  onChange: (petIds: number[]) => void
+  /** 등록된 반려동물이 없을 때 등록 화면으로 이동 */
+  onAddPet: () => void
+  disabled?: boolean
+}
+
+export default function PetPicker({ pets, selectedPetIds, onChange, onAddPet, disabled }: PetPickerProps) {
+  const togglePet = (petId: number) => {
+    if (selectedPetIds.includes(petId)) {
+      onChange(selectedPetIds.filter((id) => id !== petId))
+    } else {
+      onChange([...selectedPetIds, petId])
+    }
+  }
+
+  if (pets.length === 0) {
+    return (
+      <div className="text-center py-4">
+        <p className="text-gray-500 mb-3">등록된 반려동물이 없습니다. 산책 전에 반려동물을 등록해주세요.</p>
+        <button
+          onClick={onAddPet}
+          className="inline-flex items-center gap-2 px-4 py-2 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-primary hover:text-primary transition-colors"
+        >
+          <Plus size={18} />
+          반려동물 등록하기
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <p className="text-sm font-medium text-gray-700 mb-2">함께 산책할 반려동물</p>
+      <div className="flex flex-wrap gap-2">
+        {pets.map((pet) => {
+          const selected = selectedPetIds.includes(pet.id)
+          return (
+            <button
+              key={pet.id}
+              type="button"
+              onClick={() => togglePet(pet.id)}
+              disabled={disabled}
+              className={`flex items-center gap-2 pl-1 pr-3 py-1 rounded-full border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                selected
+                  ? 'bg-primary border-primary text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {pet.imageUrl ? (
+                <img src={pet.imageUrl} alt={pet.name} className="w-8 h-8 rounded-full object-cover" />
+              ) : (
+                <span className="w-8 h-8 bg-gray-300 rounded-full flex items-center justify-center text-sm text-gray-700">
+                  {pet.name[0]}
+                </span>
+              )}
+              <span className="font-medium">{pet.name}</span>
+              {selected && <Check size={16} />}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+import { useCallback, useState } from 'react';
+import { X, PenLine, Undo2, Redo2, Eraser } from 'lucide-react';
+import KakaoMap from './KakaoMap';
+import { walkRouteApi, getApiErrorMessage, type RouteCreateRequest, type WalkRoute } from '../lib/api';
+import { pathDistance, estimateWalkDuration, type LatLngPoint } from '../lib/geo';
+import { createHistory, pushHistory, undoHistory, redoHistory } from '../lib/undoHistory';
+
+interface RouteEditorModalProps {
+  /** 수정할 경로 (없으면 새 경로 그리기) */
+  route?: WalkRoute | null;
+  onClose: () => void;
+  onSuccess: (route: WalkRoute) => void;
+}
+
+export default function RouteEditorModal({ route, onClose, onSuccess }: RouteEditorModalProps) {
+  const isEditMode = !!route;
+  const [history, setHistory] = useState(() =>
+    createHistory<LatLngPoint[]>(
+      (route?.coordinates || []).map((coord) => ({ lat: coord.latitude, lng: coord.longitude }))
+    )
+  );
+  const [name, setName] = useState(route?.name || '');
+  const [shared, setShared] = useState(route?.isShared || false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const path = history.present;
+  const distance = pathDistance(path);
+  const duration = estimateWalkDuration(distance);
+  // 수정할 경로는 처음 열었을 때 전체가 보이도록
+  const initialPoint = route?.coordinates?.[0];
+
+  const handlePathChange = useCallback((next: LatLngPoint[]) => {
+    setHistory((prev) => pushHistory(prev, next));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('경로 이름을 입력해주세요.');
+      return;
+    }
+    if (path.length < 2) {
+      setError('지도를 눌러 지점을 2개 이상 추가해주세요.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const request: RouteCreateRequest = {
+        name: name.trim(),
+        coordinates: path.map((point) => ({ latitude: point.lat, longitude: point.lng })),
+        distance: Math.round(distance),
+        duration,
+        shared,
+      };
+
+      const response = route
+        ? await walkRouteApi.update(route.id, request)
+        : await walkRouteApi.create(request);
+      if (response.success && response.data) {
+        onSuccess(response.data);
+        onClose();
+      } else {
+        setError(response.message || '경로 저장에 실패했습니다.');
+      }
+    } catch (e) {
+      console.error('경로 저장 오류:', e);
+      setError(getApiErrorMessage(e, '경로 저장 중 오류가 발생했습니다.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <PenLine className="text-primary" size={24} />
+            {isEditMode ? '산책 경로 수정' : '산책 경로 그리기'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            disabled={isSubmitting}
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            지도를 눌러 지점을 추가하고, 지점을 끌어서 위치를 조정하세요.
+          </p>
+
+          <div className="relative rounded-lg overflow-hidden">
+            <KakaoMap
+              centerLat={initialPoint?.latitude}
+              centerLng={initialPoint?.longitude}
+              autoLocation={!initialPoint}
+              draggableLocationMarker={false}
+              showHazards={true}
+              height="360px"
+              level={4}
+              path={path}
+              fitPath={isEditMode && history.past.length === 0}
+              routeEditor
+              onPathChange={handlePathChange}
+            />
+            <div className="absolute top-3 right-3 z-10 flex gap-1 bg-white rounded-lg shadow-md p-1">
+              <button
+                type="button"
+                onClick={() => setHistory(undoHistory)}
+                disabled={history.past.length === 0 || isSubmitting}
+                className="p-2 rounded hover:bg-gray-100 disabled:opacity-30"
+                title="실행 취소"
+              >
+                <Undo2 size={18} />
+              </button>
+              <button
+                type="button"
+                onClick={() => setHistory(redoHistory)}
+                disabled={history.future.length === 0 || isSubmitting}
+                className="p-2 rounded hover:bg-gray-100 disabled:opacity-30"
+                title="다시 실행"
+              >
+                <Redo2 size={18} />
+              </button>
+              <button
+                type="button"
+                onClick={() => handlePathChange([])}
+                disabled={path.length === 0 || isSubmitting}
+                className="p-2 rounded hover:bg-gray-100 disabled:opacity-30"
+                title="모두 지우기"
+              >
+                <Eraser size={18} />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 text-center bg-gray-50 rounded-lg py-3">
+            <div>
+              <p className="text-lg font-bold text-primary">{(distance / 1000).toFixed(2)} km</p>
+              <p className="text-xs text-gray-600">거리</p>
+            </div>
+            <div>
+              <p className="text-lg font-bold text-primary">{Math.round(duration / 60)}분</p>
+              <p className="text-xs text-gray-600">예상 시간</p>
+            </div>
+            <div>
+              <p className="text-lg font-bold text-primary">{path.length}</p>
+              <p className="text-xs text-gray-600">지점</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              경로 이름 <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              placeholder="예: 동네 한 바퀴"
+              disabled={isSubmitting}
+              required
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={shared}
+              onChange={(e) => setShared(e.target.checked)}
+              disabled={isSubmitting}
+            />
+            다른 사용자에게 경로 공유
+          </label>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isSubmitting}
+            >
+              취소
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              disabled={path.length < 2 || isSubmitting}
+            >
+              {isSubmitting ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                  저장 중...
+                </>
+              ) : isEditMode ? (
+                '수정 완료'
+              ) : (
+                '경로 저장'
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
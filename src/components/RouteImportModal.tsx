@@ -0,0 +1,202 @@
+import { useMemo, useState } from 'react';
+import { X, Upload } from 'lucide-react';
+import KakaoMap from './KakaoMap';
+import { walkRouteApi, getApiErrorMessage, type RouteCreateRequest, type WalkRoute } from '../lib/api';
+import { importTrackFile, type ImportedTrack } from '../lib/trackImport';
+
+interface RouteImportModalProps {
+  onClose: () => void;
+  onSuccess: (route: WalkRoute) => void;
+}
+
+export default function RouteImportModal({ onClose, onSuccess }: RouteImportModalProps) {
+  const [track, setTrack] = useState<ImportedTrack | null>(null);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 미리보기 지도 중심 (경로 시작점)
+  const center = track?.points[0];
+  const previewPath = useMemo(() => track?.points ?? [], [track]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setIsParsing(true);
+      setError(null);
+      const imported = await importTrackFile(file);
+      setTrack(imported);
+      setName(imported.name);
+    } catch (e) {
+      console.error('경로 파일 읽기 오류:', e);
+      setTrack(null);
+      setError(e instanceof Error ? e.message : '파일을 읽을 수 없습니다.');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!track) {
+      setError('가져올 파일을 선택해주세요.');
+      return;
+    }
+    if (!name.trim()) {
+      setError('경로 이름을 입력해주세요.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const request: RouteCreateRequest = {
+        name: name.trim(),
+        coordinates: track.points.map((point) => ({ latitude: point.lat, longitude: point.lng })),
+        distance: Math.round(track.distance),
+        duration: Math.round(track.duration),
+        shared,
+      };
+
+      const response = await walkRouteApi.create(request);
+      if (response.success && response.data) {
+        onSuccess(response.data);
+        onClose();
+      } else {
+        setError(response.message || '경로 저장에 실패했습니다.');
+      }
+    } catch (e) {
+      console.error('경로 가져오기 오류:', e);
+      setError(getApiErrorMessage(e, '경로 저장 중 오류가 발생했습니다.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <Upload className="text-primary" size={24} />
+            경로 가져오기
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            disabled={isSubmitting}
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              GPX / GeoJSON 파일 <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="file"
+              accept=".gpx,.geojson,.json,application/gpx+xml,application/geo+json,application/json"
+              onChange={handleFileChange}
+              className="w-full text-sm text-gray-700 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-primary/10 file:text-primary"
+              disabled={isParsing || isSubmitting}
+            />
+            {isParsing && <p className="text-xs text-gray-500 mt-1">파일을 읽는 중...</p>}
+          </div>
+
+          {track && center && (
+            <>
+              <div className="rounded-lg overflow-hidden">
+                <KakaoMap
+                  centerLat={center.lat}
+                  centerLng={center.lng}
+                  height="220px"
+                  showHazards={false}
+                  path={previewPath}
+                  fitPath
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-2 text-center bg-gray-50 rounded-lg py-3">
+                <div>
+                  <p className="text-lg font-bold text-primary">{(track.distance / 1000).toFixed(2)} km</p>
+                  <p className="text-xs text-gray-600">거리</p>
+                </div>
+                <div>
+                  <p className="text-lg font-bold text-primary">{Math.max(1, Math.round(track.duration / 60))}분</p>
+                  <p className="text-xs text-gray-600">예상 시간</p>
+                </div>
+                <div>
+                  <p className="text-lg font-bold text-primary">{track.points.length}</p>
+                  <p className="text-xs text-gray-600">지점 (원본 {track.originalPointCount})</p>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  경로 이름 <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  placeholder="예: 동네 한 바퀴"
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={shared}
+                  onChange={(e) => setShared(e.target.checked)}
+                  disabled={isSubmitting}
+                />
+                다른 사용자에게 경로 공유
+              </label>
+            </>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isSubmitting}
+            >
+              취소
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              disabled={!track || isParsing || isSubmitting}
+            >
+              {isSubmitting ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                  저장 중...
+                </>
+              ) : (
+                '경로 저장'
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
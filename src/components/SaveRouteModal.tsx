@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { X, Route } from 'lucide-react';
+import { walkRouteApi, getApiErrorMessage, type RouteCreateRequest, type WalkRoute } from '../lib/api';
+
+interface SaveRouteModalProps {
+  coordinates: Array<{ latitude: number; longitude: number }>;
+  /** 경로 거리 (미터) */
+  distance: number;
+  /** 예상 소요 시간 (초) */
+  duration: number;
+  defaultName?: string;
+  onClose: () => void;
+  onSuccess: (route: WalkRoute) => void;
+}
+
+export default function SaveRouteModal({
+  coordinates,
+  distance,
+  duration,
+  defaultName = '',
+  onClose,
+  onSuccess,
+}: SaveRouteModalProps) {
+  const [name, setName] = useState(defaultName);
+  const [shared, setShared] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('경로 이름을 입력해주세요.');
+      return;
+    }
+    if (coordinates.length < 2) {
+      setError('저장할 경로가 너무 짧습니다.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const request: RouteCreateRequest = {
+        name: name.trim(),
+        coordinates,
+        distance: Math.round(distance),
+        duration: Math.round(duration),
+        shared,
+      };
+
+      const response = await walkRouteApi.create(request);
+      if (response.success && response.data) {
+        onSuccess(response.data);
+        onClose();
+      } else {
+        setError(response.message || '경로 저장에 실패했습니다.');
+      }
+    } catch (e) {
+      console.error('경로 저장 오류:', e);
+      setError(getApiErrorMessage(e, '경로 저장 중 오류가 발생했습니다.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <Route className="text-primary" size={24} />
+            산책 경로 저장
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            disabled={isSubmitting}
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4 text-center bg-gray-50 rounded-lg py-3">
+            <div>
+              <p className="text-lg font-bold text-primary">{(distance / 1000).toFixed(2)} km</p>
+              <p className="text-xs text-gray-600">거리</p>
+            </div>
+            <div>
+              <p className="text-lg font-bold text-primary">{Math.max(1, Math.round(duration / 60))}분</p>
+              <p className="text-xs text-gray-600">예상 시간</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              경로 이름 <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              placeholder="예: 동네 한 바퀴"
+              disabled={isSubmitting}
+              required
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={shared}
+              onChange={(e) => setShared(e.target.checked)}
+              disabled={isSubmitting}
+            />
+            다른 사용자에게 경로 공유
+          </label>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isSubmitting}
+            >
+              저장 안 함
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                  저장 중...
+                </>
+              ) : (
+                '경로 저장'
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import type { SpeedSample } from '../lib/walkStats';
+import { formatPace, toKmPerHour } from '../lib/format';
+
+interface SpeedChartProps {
+  samples: SpeedSample[];
+  /** 차트 높이 (px) */
+  height?: number;
+}
+
+const WIDTH = 300;
+const PADDING = { top: 10, right: 8, bottom: 18, left: 28 };
+
+export default function SpeedChart({ samples, height = 140 }: SpeedChartProps) {
+  if (samples.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-6">속도 기록이 없습니다.</p>;
+  }
+
+  const speeds = samples.map((sample) => toKmPerHour(sample.speed));
+  // 축 최대값은 1km/h 단위로 올림 (최소 6km/h)
+  const maxSpeed = Math.max(6, Math.ceil(Math.max(...speeds)));
+  const movingSpeeds = speeds.filter((speed) => speed > 0);
+  const averageSpeed = movingSpeeds.length > 0
+    ? movingSpeeds.reduce((sum, speed) => sum + speed, 0) / movingSpeeds.length
+    : 0;
+  const chartWidth = WIDTH - PADDING.left - PADDING.right;
+  const chartHeight = height - PADDING.top - PADDING.bottom;
+  const step = samples.length > 1 ? chartWidth / (samples.length - 1) : 0;
+
+  const x = (index: number) => PADDING.left + index * step;
+  const y = (speed: number) => PADDING.top + chartHeight * (1 - speed / maxSpeed);
+
+  const linePoints = speeds.map((speed, i) => `${x(i)},${y(speed)}`).join(' ');
+  const areaPoints = `${x(0)},${y(0)} ${linePoints} ${x(speeds.length - 1)},${y(0)}`;
+  const totalMinutes = Math.round((samples[samples.length - 1].elapsed + (samples[1]?.elapsed ?? 60)) / 60);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" role="img" aria-label="구간별 속도">
+        {[0, 0.5, 1].map((ratio) => (
+          <g key={ratio}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(maxSpeed * ratio)}
+              y2={y(maxSpeed * ratio)}
+              stroke="#e5e7eb"
+              strokeWidth={1}
+            />
+            <text x={PADDING.left - 4} y={y(maxSpeed * ratio) + 3} fontSize={9} textAnchor="end" fill="#6b7280">
+              {Math.round(maxSpeed * ratio)}
+            </text>
+          </g>
+        ))}
+        <polygon points={areaPoints} fill="#2563eb" fillOpacity={0.12} />
+        <polyline points={linePoints} fill="none" stroke="#2563eb" strokeWidth={2} strokeLinejoin="round" />
+        {averageSpeed > 0 && (
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(averageSpeed)}
+            y2={y(averageSpeed)}
+            stroke="#f97316"
+            strokeWidth={1}
+            strokeDasharray="4 3"
+          />
+        )}
+        <text x={PADDING.left} y={height - 4} fontSize={9} fill="#6b7280">0분</text>
+        <text x={WIDTH - PADDING.right} y={height - 4} fontSize={9} textAnchor="end" fill="#6b7280">
+          {totalMinutes}분
+        </text>
+      </svg>
+      <div className="flex justify-between text-xs text-gray-600 mt-1">
+        <span>속도 (km/h)</span>
+        <span className="text-orange-500">
+          평균 {averageSpeed.toFixed(1)} km/h · 페이스 {formatPace(averageSpeed > 0 ? 3600 / averageSpeed : 0)}
+        </span>
+      </div>
+    </div>
+  );
+}
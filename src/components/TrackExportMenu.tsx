@@ -0,0 +1,55 @@
+import { useState } from 'react'
+import { Download } from 'lucide-react'
+import { downloadTrack, EXPORT_FORMAT_LABELS, type ExportFormat, type ExportTrack } from '../lib/trackExport'
+
+interface TrackExportMenuProps {
+  /** 클릭 시점에 내보낼 경로를 만듦 */
+  getTrack: () => ExportTrack
+  /** 어두운 배경(선택된 카드 등) 위에 표시할 때 */
+  inverted?: boolean
+}
+
+export default function TrackExportMenu({ getTrack, inverted }: TrackExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const formats: ExportFormat[] = ['gpx', 'kml', 'geojson']
+
+  const handleExport = (format: ExportFormat) => {
+    const track = getTrack()
+    if (track.points.length < 2) {
+      alert('내보낼 경로 정보가 없습니다.')
+      return
+    }
+    downloadTrack(track, format)
+    setIsOpen(false)
+  }
+
+  return (
+    // 카드 클릭(선택 등)으로 이벤트가 전달되지 않도록 막음
+    <div className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2 rounded-lg transition-colors ${
+          inverted ? 'text-white hover:bg-white/20' : 'text-gray-500 hover:bg-gray-200'
+        }`}
+        title="내보내기"
+      >
+        <Download size={18} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-20 overflow-hidden">
+          {formats.map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleExport(format)}
+              className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 whitespace-nowrap"
+            >
+              {EXPORT_FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,343 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { CheckCircle, Play, Square, ImagePlus, X, AlertTriangle, Loader2, Trash2 } from 'lucide-react';
+import KakaoMap, { type MapEventMarker } from './KakaoMap';
+import SpeedChart from './SpeedChart';
+import { hazardApi, fileApi, getApiErrorMessage, type HazardResponse } from '../lib/api';
+import { pathDistance, pointAlongPath, type LatLngPoint, type TrackPoint } from '../lib/geo';
+import { computeSpeedSeries, findNearPath, getPathBoundingCircle } from '../lib/walkStats';
+import { summarizeTimeline, type WalkTimeline } from '../lib/walkTimeline';
+import { countWalkEvents, WALK_EVENT_TYPES, WALK_EVENT_LABELS, WALK_EVENT_EMOJIS, WALK_EVENT_COLORS, type WalkEvent } from '../lib/walkEvents';
+import { getHazardCategoryColor, getHazardCategoryIcon, getHazardCategoryLabel } from '../lib/hazards';
+import { isHazardArchived, sortHazardsByConfidence } from '../lib/hazardRelevance';
+import { formatTime, formatDistance, formatPace } from '../lib/format';
+
+export interface WalkSummaryData {
+  petNames: string[];
+  /** 시작/종료 시각 (epoch ms) */
+  startTime: number;
+  endTime: number;
+  /** 종료 시각으로 닫힌 타임라인 */
+  timeline: WalkTimeline;
+  positions: TrackPoint[];
+  /** 거리 (미터) */
+  distance: number;
+  stepCount: number;
+  /** 반려동물별 소모 칼로리 (petNames 순서) */
+  petCalories: number[];
+  /** 보호자 소모 칼로리 (몸무게 미설정 시 null) */
+  ownerCalories: number | null;
+  events: WalkEvent[];
+}
+
+interface WalkSummaryProps {
+  summary: WalkSummaryData;
+  isSaving: boolean;
+  /** 추가한 사진과 메모로 산책 기록 저장 */
+  onSave: (imageUrls: string[], memo: string) => void;
+  /** 저장하지 않고 산책 기록 삭제 */
+  onDiscard: () => void;
+}
+
+// 경로에서 이 거리(미터) 이내의 위험 요소를 지나간 것으로 봄
+const HAZARD_NEARBY_RADIUS = 30;
+// 다시보기 재생 시간 (산책 길이와 관계없이 일정)
+const REPLAY_DURATION_MS = 15000;
+
+export default function WalkSummary({ summary, isSaving, onSave, onDiscard }: WalkSummaryProps) {
+  const [memo, setMemo] = useState('');
+  const [imageUrls, setImageUrls] = useState<string[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [passedHazards, setPassedHazards] = useState<HazardResponse[]>([]);
+  const [replayPosition, setReplayPosition] = useState<LatLngPoint | null>(null);
+  const replayFrameRef = useRef<number | null>(null);
+
+  const { positions, events } = summary;
+  const timelineSummary = summarizeTimeline(summary.timeline, summary.endTime);
+  const speedSamples = useMemo(() => computeSpeedSeries(positions, undefined, summary.timeline), [positions, summary.timeline]);
+  const eventCounts = countWalkEvents(events);
+  const startPoint = positions[0];
+  const averagePace = summary.distance > 0 ? timelineSummary.movingSeconds / (summary.distance / 1000) : 0;
+  const totalPetCalories = summary.petCalories.reduce((sum, calories) => sum + calories, 0);
+
+  const mapMarkers = useMemo<MapEventMarker[]>(() => [
+    ...events.map((event) => ({
+      id: event.id,
+      latitude: event.lat,
+      longitude: event.lng,
+      color: WALK_EVENT_COLORS[event.type],
+      symbol: WALK_EVENT_EMOJIS[event.type],
+      title: WALK_EVENT_LABELS[event.type],
+      imageUrl: event.imageUrl,
+    })),
+    ...passedHazards.map((hazard) => ({
+      id: `hazard-${hazard.id}`,
+      latitude: hazard.latitude,
+      longitude: hazard.longitude,
+      color: getHazardCategoryColor(hazard.category),
+      symbol: getHazardCategoryIcon(hazard.category),
+      title: getHazardCategoryLabel(hazard.category),
+      imageUrl: hazard.imageUrl,
+    })),
+  ], [events, passedHazards]);
+
+  // 지나온 경로 주변의 위험 요소 조회
+  useEffect(() => {
+    const circle = getPathBoundingCircle(positions);
+    if (!circle || positions.length < 2) return;
+
+    let cancelled = false;
+    hazardApi
+      .getNearby(circle.center.lat, circle.center.lng, Math.ceil(circle.radius + HAZARD_NEARBY_RADIUS))
+      .then((response) => {
+        if (!cancelled && response.success && response.data) {
+          // 없어졌다고 보관된 신고는 빼고 믿을 만한 신고부터
+          const active = response.data.filter((hazard) => !isHazardArchived(hazard));
+          setPassedHazards(sortHazardsByConfidence(findNearPath(active, positions, HAZARD_NEARBY_RADIUS)));
+        }
+      })
+      .catch((error) => {
+        console.error('경로 주변 위험 요소 조회 실패:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [positions]);
+
+  // 화면을 벗어나면 다시보기 중지
+  useEffect(() => () => {
+    if (replayFrameRef.current !== null) cancelAnimationFrame(replayFrameRef.current);
+  }, []);
+
+  const stopReplay = () => {
+    if (replayFrameRef.current !== null) {
+      cancelAnimationFrame(replayFrameRef.current);
+      replayFrameRef.current = null;
+    }
+    setReplayPosition(null);
+  };
+
+  const startReplay = () => {
+    stopReplay();
+    const totalDistance = pathDistance(positions);
+    const startedAt = performance.now();
+    const frame = (now: number) => {
+      const progress = Math.min(1, (now - startedAt) / REPLAY_DURATION_MS);
+      setReplayPosition(pointAlongPath(positions, totalDistance * progress));
+      if (progress < 1) {
+        replayFrameRef.current = requestAnimationFrame(frame);
+      } else {
+        replayFrameRef.current = null;
+      }
+    };
+    replayFrameRef.current = requestAnimationFrame(frame);
+  };
+
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      setIsUploading(true);
+      for (const file of files) {
+        const url = await fileApi.uploadPetImage(file);
+        setImageUrls((prev) => [...prev, url]);
+      }
+    } catch (error) {
+      console.error('산책 사진 업로드 실패:', error);
+      alert(getApiErrorMessage(error, '사진 업로드에 실패했습니다.'));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const eventPhotos = events.flatMap((event) => (event.imageUrl ? [event.imageUrl] : []));
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6 space-y-6">
+      <div className="text-center">
+        <CheckCircle className="mx-auto text-secondary mb-2" size={40} />
+        <h3 className="text-xl font-bold">산책 완료!</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          {new Date(summary.startTime).toLocaleString('ko-KR', { month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+          {summary.petNames.length > 0 && ` · ${summary.petNames.join(', ')}`}
+        </p>
+      </div>
+
+      {startPoint && (
+        <div className="relative rounded-lg overflow-hidden">
+          <KakaoMap
+            centerLat={startPoint.lat}
+            centerLng={startPoint.lng}
+            height="320px"
+            showHazards={false}
+            draggableLocationMarker={false}
+            path={positions}
+            fitPath
+            eventMarkers={mapMarkers}
+            replayPosition={replayPosition}
+          />
+          {positions.length >= 2 && (
+            <button
+              type="button"
+              onClick={replayPosition ? stopReplay : startReplay}
+              className="absolute bottom-3 right-3 z-10 px-3 py-2 bg-white rounded-lg shadow-md text-sm font-semibold text-gray-700 hover:bg-gray-50 flex items-center gap-1"
+            >
+              {replayPosition ? <Square size={16} /> : <Play size={16} />}
+              {replayPosition ? '멈춤' : '다시보기'}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-4 text-center">
+        <div>
+          <p className="text-2xl font-bold text-primary">{formatDistance(Math.round(summary.distance))}</p>
+          <p className="text-sm text-gray-600">거리</p>
+        </div>
+        <div>
+          <p className="text-2xl font-bold text-primary">{formatTime(timelineSummary.movingSeconds)}</p>
+          <p className="text-sm text-gray-600">이동 시간</p>
+        </div>
+        <div>
+          <p className="text-2xl font-bold text-primary">{formatTime(timelineSummary.pausedSeconds)}</p>
+          <p className="text-sm text-gray-600">정지 시간</p>
+        </div>
+        <div>
+          <p className="text-2xl font-bold text-primary">{formatPace(averagePace)}</p>
+          <p className="text-sm text-gray-600">평균 페이스</p>
+        </div>
+        <div>
+          <p className="text-2xl font-bold text-primary">{totalPetCalories} kcal</p>
+          <p className="text-sm text-gray-600">반려동물 칼로리</p>
+        </div>
+        <div>
+          <p className="text-2xl font-bold text-primary">{summary.stepCount.toLocaleString()}</p>
+          <p className="text-sm text-gray-600">걸음</p>
+        </div>
+      </div>
+
+      {(summary.petCalories.length > 1 || summary.ownerCalories !== null) && (
+        <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-sm text-gray-700">
+          {summary.petCalories.length > 1 && summary.petNames.map((name, index) => (
+            <span key={`${name}-${index}`}>
+              🐾 {name} <span className="font-semibold">{summary.petCalories[index]} kcal</span>
+            </span>
+          ))}
+          {summary.ownerCalories !== null && (
+            <span>
+              🚶 나 <span className="font-semibold">{summary.ownerCalories} kcal</span>
+            </span>
+          )}
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-semibold mb-2">구간별 속도</h4>
+        <SpeedChart samples={speedSamples} />
+      </div>
+
+      {events.length > 0 && (
+        <div>
+          <h4 className="font-semibold mb-2">산책 기록</h4>
+          <div className="flex flex-wrap gap-2">
+            {WALK_EVENT_TYPES.filter((type) => eventCounts[type]).map((type) => (
+              <span key={type} className="px-3 py-1 bg-gray-100 rounded-full text-sm text-gray-700">
+                {WALK_EVENT_EMOJIS[type]} {WALK_EVENT_LABELS[type]} {eventCounts[type]}회
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {passedHazards.length > 0 && (
+        <div>
+          <h4 className="font-semibold mb-2 flex items-center gap-1">
+            <AlertTriangle className="text-red-500" size={18} />
+            지나온 길의 위험 요소
+          </h4>
+          <ul className="space-y-1 text-sm text-gray-700">
+            {passedHazards.map((hazard) => (
+              <li key={hazard.id} className="flex items-center gap-2">
+                <span
+                  className="w-5 h-5 rounded-full flex items-center justify-center text-xs flex-shrink-0"
+                  style={{ backgroundColor: getHazardCategoryColor(hazard.category) }}
+                >
+                  {getHazardCategoryIcon(hazard.category)}
+                </span>
+                <span>
+                  <span className="font-medium">{getHazardCategoryLabel(hazard.category)}</span>
+                  {hazard.description && ` · ${hazard.description}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-semibold mb-2">사진</h4>
+        <div className="flex flex-wrap gap-2">
+          {eventPhotos.map((url) => (
+            <img key={url} src={url} alt="산책 사진" className="w-20 h-20 object-cover rounded-lg" />
+          ))}
+          {imageUrls.map((url) => (
+            <div key={url} className="relative">
+              <img src={url} alt="산책 사진" className="w-20 h-20 object-cover rounded-lg" />
+              <button
+                type="button"
+                onClick={() => setImageUrls((prev) => prev.filter((item) => item !== url))}
+                className="absolute -top-1 -right-1 bg-gray-800 text-white rounded-full p-0.5"
+                disabled={isSaving}
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+          <label className="w-20 h-20 border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center text-gray-400 hover:bg-gray-50 cursor-pointer">
+            {isUploading ? <Loader2 className="animate-spin" size={20} /> : <ImagePlus size={20} />}
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handlePhotoChange}
+              className="hidden"
+              disabled={isUploading || isSaving}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-semibold mb-2">메모</h4>
+        <textarea
+          value={memo}
+          onChange={(e) => setMemo(e.target.value)}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary resize-none"
+          placeholder="오늘 산책은 어땠나요?"
+          disabled={isSaving}
+        />
+      </div>
+
+      <button
+        type="button"
+        onClick={() => onSave(imageUrls, memo.trim())}
+        disabled={isSaving || isUploading}
+        className="w-full bg-primary text-white py-3 rounded-lg font-semibold hover:bg-primary/90 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSaving ? <Loader2 size={20} className="animate-spin" /> : <CheckCircle size={20} />}
+        {isSaving ? '저장 중...' : '산책 기록 저장'}
+      </button>
+      <button
+        type="button"
+        onClick={onDiscard}
+        disabled={isSaving || isUploading}
+        className="w-full text-gray-500 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors flex items-center justify-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Trash2 size={16} />
+        저장하지 않고 삭제
+      </button>
+    </div>
+  );
+}
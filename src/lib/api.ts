@@ -34,6 +34,11 @@ const apiClient = axios.create({
   apiClient.interceptors.response.use(
     (response) => response,
     (error) => {
+      // 취소한 요청(지도 이동 등)은 에러로 기록하지 않음
+      if (axios.isCancel(error)) {
+        return Promise.reject(error);
+      }
+
       // 디버깅: 상세 에러 정보 출력
       if (error.config) {
         console.error('API 에러:', {
@@ -63,8 +68,8 @@ const apiClient = axios.create({
         localStorage.removeItem('userNickname');
         localStorage.removeItem('userEmail');
         localStorage.removeItem('userProfileImageUrl');
-        // 현재 페이지가 로그인 페이지가 아닐 때만 리다이렉트
-        if (window.location.pathname !== '/login') {
+        // 현재 페이지가 로그인 페이지나 공개 실시간 공유 화면이 아닐 때만 리다이렉트
+        if (window.location.pathname !== '/login' && !window.location.pathname.startsWith('/live/')) {
         window.location.href = '/login';
         }
       }
@@ -79,6 +84,17 @@ export interface ApiResponse<T> {
   data: T;
 }
 
+// API 에러에서 사용자에게 보여줄 메시지 추출
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as Partial<ApiResponse<unknown>> | undefined;
+    if (data?.message) return data.message;
+    if (typeof data?.data === 'string' && data.data) return data.data;
+  }
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+};
+
 // 인증 관련 API
 export const authApi = {
   // 테스트 엔드포인트 (백엔드 확인용)
@@ -114,12 +130,15 @@ export interface LoginResponse {
 
 // 산책 세션 관련 API
 export const walkSessionApi = {
-  // 산책 세션 시작
-  start: async (petId: number, routeId?: number) => {
+  // 산책 세션 시작 (여러 반려동물과 함께 산책하면 첫 세션 ID를 linkedSessionId로 연결)
+  start: async (petId: number, routeId?: number, linkedSessionId?: number) => {
     const requestBody: any = { petId };
     if (routeId !== undefined && routeId !== null) {
       requestBody.routeId = routeId;
     }
+    if (linkedSessionId !== undefined && linkedSessionId !== null) {
+      requestBody.linkedSessionId = linkedSessionId;
+    }
     const response = await apiClient.post<ApiResponse<WalkSessionResponse>>(
       '/walk-sessions/start',
       requestBody
@@ -134,9 +153,10 @@ export const walkSessionApi = {
     duration: number,
     calories: number,
     imageUrls?: string[],
-    memo?: string
+    memo?: string,
+    details?: WalkCompleteDetails
   ) => {
-    // 백엔드가 @RequestParam을 사용하므로 쿼리 파라미터로 전송
+    // 백엔드가 @RequestParam을 사용하므로 쿼리 파라미터로 전송 (상세 정보는 요청 본문)
     const params = new URLSearchParams();
     params.append('distance', distance.toString());
     params.append('duration', duration.toString());
@@ -150,7 +170,7 @@ export const walkSessionApi = {
     
     const response = await apiClient.post<ApiResponse<WalkSessionResponse>>(
       `/walk-sessions/${sessionId}/complete?${params.toString()}`,
-      null
+      details ?? null
     );
     return response.data;
   },
@@ -188,6 +208,41 @@ export const walkSessionApi = {
     );
     return response.data;
   },
+
+  // 산책 세션 삭제 (완료되지 않은 세션 폐기)
+  delete: async (sessionId: number) => {
+    const response = await apiClient.delete<ApiResponse<void>>(`/walk-sessions/${sessionId}`);
+    return response.data;
+  },
+};
+
+// 산책 실시간 공유 API (가족 등 로그인하지 않은 사람도 링크로 조회)
+export const liveShareApi = {
+  // 진행 중인 세션의 공유 링크 생성 (세션이 완료되면 서버에서 자동 만료)
+  create: async (sessionId: number) => {
+    const response = await apiClient.post<ApiResponse<LiveShareResponse>>(
+      `/walk-sessions/${sessionId}/live-share`
+    );
+    return response.data;
+  },
+
+  // 현재 위치와 진행 상황 전송
+  publish: async (token: string, update: LiveShareUpdateRequest) => {
+    const response = await apiClient.post<ApiResponse<void>>(`/live-shares/${token}/positions`, update);
+    return response.data;
+  },
+
+  // 공유 중인 산책 조회
+  get: async (token: string) => {
+    const response = await apiClient.get<ApiResponse<LiveWalkResponse>>(`/live-shares/${token}`);
+    return response.data;
+  },
+
+  // 공유 중지 (링크 즉시 만료)
+  stop: async (token: string) => {
+    const response = await apiClient.delete<ApiResponse<void>>(`/live-shares/${token}`);
+    return response.data;
+  },
 };
 
 // 산책 경로 관련 API
@@ -209,6 +264,12 @@ export const walkRouteApi = {
     const response = await apiClient.post<ApiResponse<WalkRoute>>('/routes', route);
     return response.data;
   },
+
+  // 산책 경로 수정
+  update: async (routeId: number, route: RouteCreateRequest) => {
+    const response = await apiClient.put<ApiResponse<WalkRoute>>(`/routes/${routeId}`, route);
+    return response.data;
+  },
 };
 
 // 사용자 관련 API
@@ -342,12 +403,20 @@ export const petApi = {
 // 위험 요소 관련 API
 export type HazardCategory = 'LEASH' | 'MUZZLE' | 'AGGRESSIVE_DOG' | 'HAZARDOUS_MATERIAL' | 'WILDLIFE' | 'LOW_LIGHT' | 'BIKE_CAR' | 'POOP_LEFT' | 'OTHER';
 
+// 위험 요소가 있는 시간대 (0~23시, 끝 시각이 시작보다 이르면 자정을 넘김)
+export interface HazardActiveHours {
+  startHour: number;
+  endHour: number;
+}
+
 export interface HazardReportRequest {
   category: HazardCategory;
   description: string;
   latitude: number;
   longitude: number;
   imageUrl?: string;
+  /** 특정 시간대에만 있는 위험 (없으면 항상) */
+  activeHours?: HazardActiveHours | null;
 }
 
 export interface HazardResponse {
@@ -359,6 +428,30 @@ export interface HazardResponse {
   imageUrl?: string;
   reporterId?: number;
   reporterNickname?: string;
+  activeHours?: HazardActiveHours | null;
+  /** "아직 있어요" 투표 수 */
+  stillThereCount?: number;
+  /** "없어졌어요" 투표 수 */
+  goneCount?: number;
+  /** 마지막으로 "아직 있어요"를 누른 시각과 사용자 */
+  lastConfirmedAt?: string | null;
+  lastConfirmedByNickname?: string | null;
+  /** 내가 투표한 내용 */
+  myVote?: HazardVoteType | null;
+  /** 서버에서 보관 처리됨 (지도에 표시하지 않음) */
+  isArchived?: boolean;
+  createdAt: string;
+}
+
+// 다른 산책자의 위험 요소 확인 투표
+export type HazardVoteType = 'STILL_THERE' | 'GONE';
+
+export interface HazardVoteResponse {
+  id: number;
+  hazardId: number;
+  voterId: number;
+  voterNickname: string;
+  vote: HazardVoteType;
   createdAt: string;
 }
 
@@ -370,9 +463,10 @@ export const hazardApi = {
   },
 
   // 주변 위험 요소 조회
-  getNearby: async (latitude: number, longitude: number, radius: number = 2000) => {
+  getNearby: async (latitude: number, longitude: number, radius: number = 2000, signal?: AbortSignal) => {
     const response = await apiClient.get<ApiResponse<HazardResponse[]>>('/hazards/nearby', {
       params: { latitude, longitude, radius },
+      signal,
     });
     return response.data;
   },
@@ -394,6 +488,18 @@ export const hazardApi = {
     const response = await apiClient.delete<ApiResponse<void>>(`/hazards/${hazardId}`);
     return response.data;
   },
+
+  // 아직 있는지 투표 (같은 사용자가 다시 투표하면 바뀜)
+  vote: async (hazardId: number, vote: HazardVoteType) => {
+    const response = await apiClient.post<ApiResponse<HazardResponse>>(`/hazards/${hazardId}/votes`, { vote });
+    return response.data;
+  },
+
+  // 투표 기록 (최신순)
+  getVotes: async (hazardId: number) => {
+    const response = await apiClient.get<ApiResponse<HazardVoteResponse[]>>(`/hazards/${hazardId}/votes`);
+    return response.data;
+  },
 };
 
 // 타입 정의
@@ -405,19 +511,106 @@ export interface WalkSessionResponse {
   petName: string;
   routeId: number | null;
   routeName: string | null;
+  linkedSessionId?: number | null;
   startTime: string;
   endTime: string | null;
   distance: number | null;
   duration: number | null;
+  calories?: number | null;
+  /** 보호자 소모 칼로리 (kcal) */
+  ownerCalories?: number | null;
+  /** 걸음 수 (걸음 수를 기록하기 전의 산책은 없음) */
+  stepCount?: number | null;
+  imageUrls?: string[] | null;
+  memo?: string | null;
   isCompleted: boolean;
+  track?: WalkTrackPointDto[] | null;
+  events?: WalkEventDto[] | null;
   createdAt: string;
 }
 
+// 산책 타임라인 구간 (활동/일시정지)
+export interface WalkSegmentDto {
+  type: 'ACTIVE' | 'PAUSED';
+  /** 일시정지 구간의 원인 */
+  pauseReason?: 'MANUAL' | 'AUTO';
+  startTime: string;
+  endTime: string;
+}
+
+// 산책 중 기록된 GPS 위치
+export interface WalkTrackPointDto {
+  latitude: number;
+  longitude: number;
+  recordedAt: string;
+}
+
+// 산책 중 기록한 이벤트 (배변, 물 마시기 등)
+export type WalkEventType = 'PEE' | 'POOP_PICKED_UP' | 'POOP_BAG_NEEDED' | 'DRINK' | 'PLAY' | 'PHOTO';
+
+export interface WalkEventDto {
+  type: WalkEventType;
+  latitude: number;
+  longitude: number;
+  occurredAt: string;
+  imageUrl?: string | null;
+}
+
+// 산책 완료 시 요청 본문으로 전송하는 상세 정보
+export interface WalkCompleteDetails {
+  movingDuration?: number;
+  pausedDuration?: number;
+  totalDuration?: number;
+  segments?: WalkSegmentDto[];
+  track?: WalkTrackPointDto[];
+  events?: WalkEventDto[];
+  /** 보호자 소모 칼로리 (kcal, 몸무게를 설정한 경우) */
+  ownerCalories?: number;
+  stepCount?: number;
+}
+
+// 산책 실시간 공유
+export interface LiveShareResponse {
+  token: string;
+  sessionId: number;
+  expiresAt: string | null;
+}
+
+export interface LiveShareUpdateRequest {
+  latitude: number;
+  longitude: number;
+  /** 누적 거리 (미터) */
+  distance: number;
+  /** 이동 시간 (초) */
+  movingDuration: number;
+  isPaused: boolean;
+  recordedAt: string;
+}
+
+export interface LiveWalkResponse {
+  token: string;
+  petNames: string[];
+  ownerNickname: string | null;
+  startTime: string;
+  /** 세션이 완료되었거나 공유를 중지하면 false */
+  isActive: boolean;
+  latitude: number | null;
+  longitude: number | null;
+  distance: number;
+  movingDuration: number;
+  isPaused: boolean;
+  /** 마지막 위치 전송 시각 */
+  updatedAt: string | null;
+  track?: WalkTrackPointDto[] | null;
+}
+
 export interface WalkStats {
   totalSessions: number;
   totalDistance: number;
   totalDuration: number;
   totalCalories: number;
+  /** 기록된 걸음 수 합계 */
+  totalSteps?: number;
   averageDistance: number;
   averageDuration: number;
 }
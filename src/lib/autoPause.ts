@@ -0,0 +1,86 @@
+import { haversineDistance, type TrackPoint } from './geo';
+import type { AutoPauseMode } from './userSettings';
+
+// 산책 중 멈춰 있는 시간(냄새 맡기, 이웃과 대화 등)을 감지해 자동으로 일시정지/재개
+
+export interface AutoPauseConfig {
+  /** 이 반경 안에 머무르면 멈춘 것으로 간주 (미터) */
+  stillRadius: number;
+  /** 멈춘 상태가 이 시간 이상 지속되면 일시정지 (초) */
+  stillSeconds: number;
+  /** 멈춘 지점에서 이 거리 이상 벗어나면 재개 (미터) */
+  resumeDistance: number;
+}
+
+export const AUTO_PAUSE_PRESETS: Record<Exclude<AutoPauseMode, 'off'>, AutoPauseConfig> = {
+  sensitive: { stillRadius: 8, stillSeconds: 20, resumeDistance: 10 },
+  relaxed: { stillRadius: 15, stillSeconds: 60, resumeDistance: 20 },
+};
+
+export const AUTO_PAUSE_MODE_LABELS: Record<AutoPauseMode, string> = {
+  off: '사용 안 함',
+  sensitive: '민감하게',
+  relaxed: '여유 있게',
+};
+
+export interface AutoPauseEvent {
+  type: 'pause' | 'resume';
+  /** 일시정지/재개로 볼 시각 (epoch ms) */
+  at: number;
+  /** 재개: 멈춘 지점에서 재개한 위치까지 이동한 거리 (미터) */
+  distance?: number;
+}
+
+export interface AutoPauseDetector {
+  /** 새 위치 반영 */
+  update: (point: TrackPoint) => AutoPauseEvent | null;
+  /** 위치 갱신이 없어도 멈춘 시간 확인 (정지 중에는 GPS 갱신이 드물기 때문) */
+  tick: (now: number) => AutoPauseEvent | null;
+  /** 상태 초기화 (수동 일시정지/재개 시) */
+  reset: (point?: TrackPoint | null) => void;
+}
+
+export const createAutoPauseDetector = (config: AutoPauseConfig): AutoPauseDetector => {
+  // 멈추기 시작한 것으로 보는 기준 지점과 시각
+  let anchor: TrackPoint | null = null;
+  let paused = false;
+
+  const checkStill = (now: number): AutoPauseEvent | null => {
+    if (paused || !anchor) return null;
+    if (now - anchor.timestamp >= config.stillSeconds * 1000) {
+      paused = true;
+      // 실제로 멈추기 시작한 시각부터 일시정지 시간으로 계산
+      return { type: 'pause', at: anchor.timestamp };
+    }
+    return null;
+  };
+
+  return {
+    update: (point) => {
+      if (!anchor) {
+        anchor = point;
+        return null;
+      }
+      const distance = haversineDistance(anchor, point);
+      if (paused) {
+        if (distance >= config.resumeDistance) {
+          paused = false;
+          anchor = point;
+          // 멈춘 지점을 벗어나며 걸은 거리도 산책 거리에 포함되도록 함께 전달
+          return { type: 'resume', at: point.timestamp, distance };
+        }
+        return null;
+      }
+      if (distance > config.stillRadius) {
+        anchor = point;
+        return null;
+      }
+      return checkStill(point.timestamp);
+    },
+    tick: (now) => checkStill(now),
+    reset: (point = null) => {
+      anchor = point;
+      paused = false;
+    },
+  };
+};
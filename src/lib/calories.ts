@@ -0,0 +1,121 @@
+import type { PetResponse } from './api';
+
+// 산책 소모 칼로리 추정 (반려동물/보호자)
+
+export type CaloriePetProfile = Pick<PetResponse, 'species' | 'breed' | 'weight' | 'birthDate'>;
+
+// 몸무게가 없을 때 사용할 품종별 평균 체중 (kg)
+const BREED_WEIGHTS: { keywords: string[]; weight: number }[] = [
+  { keywords: ['치와와'], weight: 2.5 },
+  { keywords: ['포메라니안', '포메'], weight: 2.5 },
+  { keywords: ['요크셔', '요키'], weight: 3 },
+  { keywords: ['말티즈', '말티'], weight: 3 },
+  { keywords: ['토이푸들', '푸들'], weight: 4 },
+  { keywords: ['파피용'], weight: 4 },
+  { keywords: ['시츄', '시추'], weight: 6 },
+  { keywords: ['비숑'], weight: 6 },
+  { keywords: ['닥스훈트'], weight: 8 },
+  { keywords: ['퍼그'], weight: 8 },
+  { keywords: ['프렌치불독', '프렌치 불독'], weight: 11 },
+  { keywords: ['시바', '시바견'], weight: 10 },
+  { keywords: ['비글'], weight: 11 },
+  { keywords: ['웰시코기', '코기'], weight: 12 },
+  { keywords: ['보더콜리', '보더 콜리'], weight: 18 },
+  { keywords: ['진돗개', '진도'], weight: 18 },
+  { keywords: ['사모예드'], weight: 23 },
+  { keywords: ['시베리안허스키', '허스키'], weight: 23 },
+  { keywords: ['골든리트리버', '골든 리트리버', '래브라도', '리트리버'], weight: 30 },
+];
+
+const DEFAULT_DOG_WEIGHT = 10;
+const DEFAULT_CAT_WEIGHT = 4.5;
+
+// 산소 1mL 소모 시 에너지 (J)
+const JOULES_PER_ML_O2 = 20.1;
+const JOULES_PER_KCAL = 4184;
+
+/**
+ * 반려동물 체중 (kg). 등록된 몸무게가 없으면 품종/종류별 평균값 사용
+ */
+export const estimatePetWeight = (pet: CaloriePetProfile): number => {
+  if (pet.weight && pet.weight > 0) return pet.weight;
+
+  const breed = pet.breed?.replace(/\s/g, '') ?? '';
+  const match = breed
+    ? BREED_WEIGHTS.find((item) => item.keywords.some((keyword) => breed.includes(keyword.replace(/\s/g, ''))))
+    : undefined;
+  if (match) return match.weight;
+
+  return pet.species === '고양이' ? DEFAULT_CAT_WEIGHT : DEFAULT_DOG_WEIGHT;
+};
+
+/**
+ * 나이(년). 생일이 없으면 null
+ */
+export const getPetAgeYears = (birthDate: string | null, now = Date.now()): number | null => {
+  if (!birthDate) return null;
+  const birth = new Date(birthDate).getTime();
+  if (Number.isNaN(birth) || birth > now) return null;
+  return (now - birth) / (365.25 * 24 * 60 * 60 * 1000);
+};
+
+// 성장기는 기초 대사량이 높고, 노령기는 낮음
+const getAgeFactor = (ageYears: number | null): number => {
+  if (ageYears === null) return 1;
+  if (ageYears < 1) return 1.5;
+  if (ageYears >= 8) return 0.85;
+  return 1;
+};
+
+/**
+ * 반려동물 산책 소모 칼로리 (kcal)
+ * 포유류 보행 대사 모델(Taylor et al.)로 이동 거리에 비례하는 이동 비용과
+ * 이동 시간에 비례하는 자세 유지/기초 비용을 체중에 맞춰 계산.
+ * 같은 거리라도 천천히 오래 걸으면 시간 항이 커지므로 페이스가 반영됨
+ */
+export const estimatePetCalories = (
+  pet: CaloriePetProfile,
+  distanceMeters: number,
+  movingSeconds: number,
+  now = Date.now()
+): number => {
+  if (distanceMeters <= 0 && movingSeconds <= 0) return 0;
+
+  const weight = estimatePetWeight(pet);
+  const ageFactor = getAgeFactor(getPetAgeYears(pet.birthDate, now));
+  // mL O2 / (kg·m), mL O2 / (kg·s)
+  const transportCost = 0.533 * Math.pow(weight, -0.316);
+  const postureCost = 0.3 * Math.pow(weight, -0.303) * ageFactor;
+  const oxygenMl = weight * (transportCost * Math.max(0, distanceMeters) + postureCost * Math.max(0, movingSeconds));
+
+  return (oxygenMl * JOULES_PER_ML_O2) / JOULES_PER_KCAL;
+};
+
+/**
+ * 걷기 속도(m/s)별 MET (신체활동 개요서 기준)
+ */
+export const getWalkingMet = (speedMps: number): number => {
+  const kmh = speedMps * 3.6;
+  if (kmh < 3.2) return 2.0;
+  if (kmh < 4.0) return 2.8;
+  if (kmh < 4.8) return 3.0;
+  if (kmh < 5.6) return 3.5;
+  if (kmh < 6.4) return 4.3;
+  return 5.0;
+};
+
+/**
+ * 보호자 산책 소모 칼로리 (kcal) = MET × 체중(kg) × 시간(h)
+ * 체중을 설정하지 않았으면 null
+ */
+export const estimateOwnerCalories = (
+  ownerWeight: number | null,
+  distanceMeters: number,
+  movingSeconds: number
+): number | null => {
+  if (!ownerWeight || ownerWeight <= 0) return null;
+  if (movingSeconds <= 0) return 0;
+
+  const met = getWalkingMet(Math.max(0, distanceMeters) / movingSeconds);
+  return met * ownerWeight * (movingSeconds / 3600);
+};
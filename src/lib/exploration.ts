@@ -0,0 +1,279 @@
+import { haversineDistance, type LatLngPoint } from './geo';
+import type { WalkRoute, WalkSessionResponse } from './api';
+
+// 지금까지 산책한 모든 경로를 격자로 나눠 "탐험한 영역" 계산
+
+/** 격자 한 칸의 크기 (미터) */
+export const EXPLORATION_CELL_SIZE = 75;
+
+const METERS_PER_DEGREE_LAT = 111320;
+// 이보다 먼 두 위치 사이는 GPS 끊김으로 보고 잇지 않음
+const MAX_GAP_METERS = 1000;
+
+export interface ExplorationWalk {
+  /** 산책 세션 ID */
+  id: number;
+  /** 산책 시작 시각 (epoch ms) */
+  startedAt: number;
+  path: LatLngPoint[];
+}
+
+export interface ExploredCell {
+  key: string;
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+  center: LatLngPoint;
+  /** 이 칸을 지나간 산책 횟수 */
+  visits: number;
+  /** 처음 지나간 시각 (epoch ms) */
+  firstVisitedAt: number;
+  /** 마지막으로 지나간 시각 (epoch ms) */
+  lastVisitedAt: number;
+}
+
+/** 이웃한 두 칸을 잇는 구간 */
+export interface ExploredSegment {
+  key: string;
+  from: LatLngPoint;
+  to: LatLngPoint;
+  /** 이 구간을 지나간 산책 횟수 */
+  visits: number;
+}
+
+export interface ExplorationMap {
+  cells: ExploredCell[];
+  /** 많이 지나간 순으로 정렬 */
+  segments: ExploredSegment[];
+}
+
+/**
+ * 산책 기록을 탐험 지도용 경로로 변환
+ * 여러 반려동물과 함께한 산책은 대표 세션만 사용하고,
+ * 위치 기록이 없으면 따라간 내 경로의 좌표로 대신함
+ */
+export const getExplorationWalks = (sessions: WalkSessionResponse[], routes: WalkRoute[]): ExplorationWalk[] =>
+  sessions
+    .filter((session) => session.isCompleted && !session.linkedSessionId)
+    .map((session) => {
+      const route = session.routeId !== null ? routes.find((item) => item.id === session.routeId) : undefined;
+      const points = session.track && session.track.length >= 2 ? session.track : route?.coordinates || [];
+      return {
+        id: session.id,
+        startedAt: new Date(session.startTime).getTime(),
+        path: points.map((point) => ({ lat: point.latitude, lng: point.longitude })),
+      };
+    })
+    .filter((walk) => walk.path.length >= 2);
+
+// 위치가 속한 격자 칸 (위도 줄마다 경도 간격을 달리해 칸 크기를 맞춤)
+const getCellIndex = (point: LatLngPoint, cellSize: number) => {
+  const latStep = cellSize / METERS_PER_DEGREE_LAT;
+  const row = Math.floor(point.lat / latStep);
+  const lngStep = latStep / Math.cos(((row + 0.5) * latStep * Math.PI) / 180);
+  const col = Math.floor(point.lng / lngStep);
+  return { row, col, latStep, lngStep };
+};
+
+const getCellKey = (point: LatLngPoint, cellSize: number) => {
+  const { row, col } = getCellIndex(point, cellSize);
+  return `${row}:${col}`;
+};
+
+const createCell = (point: LatLngPoint, cellSize: number, visitedAt: number): ExploredCell => {
+  const { row, col, latStep, lngStep } = getCellIndex(point, cellSize);
+  const south = row * latStep;
+  const west = col * lngStep;
+  return {
+    key: `${row}:${col}`,
+    south,
+    west,
+    north: south + latStep,
+    east: west + lngStep,
+    center: { lat: south + latStep / 2, lng: west + lngStep / 2 },
+    visits: 0,
+    firstVisitedAt: visitedAt,
+    lastVisitedAt: visitedAt,
+  };
+};
+
+// 칸을 건너뛰지 않도록 위치 사이를 촘촘하게 채움 (끊긴 구간은 나눠서 반환)
+const densifyPath = (path: LatLngPoint[], step: number): LatLngPoint[][] => {
+  const parts: LatLngPoint[][] = [[path[0]]];
+  for (let i = 1; i < path.length; i++) {
+    const from = path[i - 1];
+    const to = path[i];
+    const distance = haversineDistance(from, to);
+    if (distance > MAX_GAP_METERS) {
+      parts.push([to]);
+      continue;
+    }
+    const current = parts[parts.length - 1];
+    const count = Math.ceil(distance / step);
+    for (let j = 1; j <= count; j++) {
+      const ratio = j / count;
+      current.push({ lat: from.lat + (to.lat - from.lat) * ratio, lng: from.lng + (to.lng - from.lng) * ratio });
+    }
+  }
+  return parts;
+};
+
+/**
+ * 모든 산책 경로를 격자 칸과 구간으로 집계
+ * 한 산책에서 같은 칸을 여러 번 지나도 한 번으로 셈
+ */
+export const buildExplorationMap = (walks: ExplorationWalk[], cellSize = EXPLORATION_CELL_SIZE): ExplorationMap => {
+  const cells = new Map<string, ExploredCell>();
+  const segments = new Map<string, ExploredSegment>();
+
+  [...walks]
+    .sort((a, b) => a.startedAt - b.startedAt)
+    .forEach((walk) => {
+      const visitedCells = new Set<string>();
+      const visitedSegments = new Set<string>();
+
+      densifyPath(walk.path, cellSize / 2).forEach((part) => {
+        let previousKey: string | null = null;
+        part.forEach((point) => {
+          const key = getCellKey(point, cellSize);
+          let cell = cells.get(key);
+          if (!cell) {
+            cell = createCell(point, cellSize, walk.startedAt);
+            cells.set(key, cell);
+          }
+          if (!visitedCells.has(key)) {
+            visitedCells.add(key);
+            cell.visits += 1;
+            cell.lastVisitedAt = walk.startedAt;
+          }
+
+          if (previousKey && previousKey !== key) {
+            // 방향과 관계없이 같은 구간으로 셈
+            const segmentKey = [previousKey, key].sort().join('|');
+            if (!visitedSegments.has(segmentKey)) {
+              visitedSegments.add(segmentKey);
+              const segment = segments.get(segmentKey);
+              if (segment) {
+                segment.visits += 1;
+              } else {
+                segments.set(segmentKey, {
+                  key: segmentKey,
+                  from: cells.get(previousKey)!.center,
+                  to: cell.center,
+                  visits: 1,
+                });
+              }
+            }
+          }
+          previousKey = key;
+        });
+      });
+    });
+
+  return {
+    cells: Array.from(cells.values()),
+    segments: Array.from(segments.values()).sort((a, b) => b.visits - a.visits),
+  };
+};
+
+export interface ExplorationStats {
+  /** 탐험한 칸 수 */
+  cellCount: number;
+  /** 탐험한 면적 (제곱킬로미터) */
+  area: number;
+  /** 이번 달에 처음 가 본 칸 수 */
+  newThisMonth: number;
+  /** 가장 많이 지나간 칸의 산책 횟수 */
+  maxVisits: number;
+}
+
+export const getExplorationStats = (
+  map: ExplorationMap,
+  now = new Date(),
+  cellSize = EXPLORATION_CELL_SIZE
+): ExplorationStats => {
+  const monthStart = getMonthStart(now);
+  return {
+    cellCount: map.cells.length,
+    area: (map.cells.length * cellSize * cellSize) / 1_000_000,
+    newThisMonth: map.cells.filter((cell) => cell.firstVisitedAt >= monthStart).length,
+    maxVisits: map.cells.reduce((max, cell) => Math.max(max, cell.visits), 0),
+  };
+};
+
+/** 이번 달 1일 0시 (epoch ms) */
+export const getMonthStart = (now = new Date()) => new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+/** 산책 횟수에 따른 히트맵 색상 */
+export const getHeatColor = (visits: number) => {
+  if (visits >= 8) return '#991b1b';
+  if (visits >= 4) return '#ef4444';
+  if (visits >= 2) return '#fb923c';
+  return '#fcd34d';
+};
+
+// 지도 좌표의 도로명 (카카오 지오코더 결과를 기기에 캐시)
+const STREET_CACHE_KEY = 'streetNameCache';
+
+const loadStreetCache = (): Record<string, string> => {
+  try {
+    const raw = localStorage.getItem(STREET_CACHE_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, string>) : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveStreetCache = (cache: Record<string, string>) => {
+  try {
+    localStorage.setItem(STREET_CACHE_KEY, JSON.stringify(cache));
+  } catch (error) {
+    console.warn('도로명 캐시 저장 실패:', error);
+  }
+};
+
+const getStreetCacheKey = (point: LatLngPoint) => `${point.lat.toFixed(4)},${point.lng.toFixed(4)}`;
+
+const lookupStreetName = (geocoder: kakao.maps.services.Geocoder, point: LatLngPoint) =>
+  new Promise<string>((resolve) => {
+    geocoder.coord2Address(point.lng, point.lat, (result, status) => {
+      // 공원 안처럼 도로명이 없는 곳은 빈 문자열로 기록해 다시 묻지 않음
+      resolve(status === kakao.maps.services.Status.OK ? result[0]?.road_address?.road_name || '' : '');
+    });
+  });
+
+/**
+ * 위치마다 도로명 조회 (카카오 지도 SDK가 로드된 뒤 호출)
+ * 캐시에 없는 위치는 한 번에 최대 maxLookups개까지만 차례로 조회
+ * @returns 위치 순서대로 도로명 (모르면 null)
+ */
+export const resolveStreetNames = async (
+  points: LatLngPoint[],
+  options: { maxLookups?: number; signal?: AbortSignal; onProgress?: (names: (string | null)[]) => void } = {}
+): Promise<(string | null)[]> => {
+  const { maxLookups = 150, signal, onProgress } = options;
+  const cache = loadStreetCache();
+  const names = points.map((point) => cache[getStreetCacheKey(point)] ?? null);
+  const geocoder = new kakao.maps.services.Geocoder();
+  let lookups = 0;
+
+  for (let i = 0; i < points.length && lookups < maxLookups; i++) {
+    if (signal?.aborted) break;
+    if (names[i] !== null) continue;
+    names[i] = await lookupStreetName(geocoder, points[i]);
+    cache[getStreetCacheKey(points[i])] = names[i]!;
+    lookups += 1;
+    if (lookups % 20 === 0) {
+      saveStreetCache(cache);
+      onProgress?.([...names]);
+    }
+  }
+
+  saveStreetCache(cache);
+  return names;
+};
+
+/** 조회된 도로명 중 서로 다른 도로 수 */
+export const countUniqueStreets = (names: (string | null)[]) =>
+  new Set(names.filter((name): name is string => !!name)).size;
@@ -0,0 +1,28 @@
+// 산책 기록 표시용 포맷 함수
+
+/** 초 → HH:MM:SS */
+export const formatTime = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+/** 미터 → 1km 미만은 m, 이상은 km */
+export const formatDistance = (meters: number) => {
+  if (meters < 1000) {
+    return `${meters}m`;
+  }
+  return `${(meters / 1000).toFixed(2)} km`;
+};
+
+/** 페이스 (1km당 분'초") */
+export const formatPace = (secondsPerKm: number) => {
+  if (!Number.isFinite(secondsPerKm) || secondsPerKm <= 0) return '-';
+  const minutes = Math.floor(secondsPerKm / 60);
+  const seconds = Math.round(secondsPerKm % 60);
+  return `${minutes}'${seconds.toString().padStart(2, '0')}"`;
+};
+
+/** 초속 → 시속 (km/h) */
+export const toKmPerHour = (metersPerSecond: number) => metersPerSecond * 3.6;
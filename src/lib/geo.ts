@@ -0,0 +1,130 @@
+// 위치/거리 계산 공통 유틸
+
+export interface LatLngPoint {
+  lat: number;
+  lng: number;
+}
+
+/** GPS로 기록된 위치 (타임스탬프 포함) */
+export interface TrackPoint extends LatLngPoint {
+  timestamp: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * 두 지점 간 거리 계산 (하버사인 공식)
+ * @returns 거리 (미터)
+ */
+export const haversineDistance = (pos1: LatLngPoint, pos2: LatLngPoint): number => {
+  const dLat = toRadians(pos2.lat - pos1.lat);
+  const dLng = toRadians(pos2.lng - pos1.lng);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(pos1.lat)) * Math.cos(toRadians(pos2.lat)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_METERS * c;
+};
+
+/**
+ * 경로 전체 길이 계산
+ * @returns 거리 (미터)
+ */
+export const pathDistance = (points: LatLngPoint[]): number => {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += haversineDistance(points[i - 1], points[i]);
+  }
+  return total;
+};
+
+// 반려견과 산책할 때의 평균 속도 (약 4km/h)
+export const WALKING_SPEED_MPS = 1.1;
+
+/**
+ * 거리 기준 예상 산책 시간
+ * @returns 시간 (초)
+ */
+export const estimateWalkDuration = (meters: number): number =>
+  Math.round(meters / WALKING_SPEED_MPS);
+
+/**
+ * 점을 선분(start-end) 위로 투영 (짧은 거리이므로 평면 근사)
+ * @returns distance: 선분까지의 거리 (미터), fraction: 선분 위 투영 위치 (0~1)
+ */
+export const projectOntoSegment = (
+  point: LatLngPoint,
+  start: LatLngPoint,
+  end: LatLngPoint
+): { distance: number; fraction: number } => {
+  const metersPerLng = 111320 * Math.cos(toRadians(start.lat));
+  const metersPerLat = 110540;
+  const x = (point.lng - start.lng) * metersPerLng;
+  const y = (point.lat - start.lat) * metersPerLat;
+  const dx = (end.lng - start.lng) * metersPerLng;
+  const dy = (end.lat - start.lat) * metersPerLat;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return { distance: Math.sqrt(x * x + y * y), fraction: 0 };
+  const t = Math.max(0, Math.min(1, (x * dx + y * dy) / lengthSquared));
+  const px = x - t * dx;
+  const py = y - t * dy;
+  return { distance: Math.sqrt(px * px + py * py), fraction: t };
+};
+
+/**
+ * 경로 단순화 (Douglas-Peucker)
+ * @param tolerance 허용 오차 (미터)
+ */
+export const simplifyPath = <T extends LatLngPoint>(points: T[], tolerance: number): T[] => {
+  if (points.length <= 2) return points;
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // 재귀 대신 스택 사용 (긴 경로에서 호출 스택 초과 방지)
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const { distance } = projectOntoSegment(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = true;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+};
+
+/**
+ * 경로 위에서 출발점부터 일정 거리만큼 떨어진 지점
+ * @param distance 출발점부터의 거리 (미터)
+ */
+export const pointAlongPath = (points: LatLngPoint[], distance: number): LatLngPoint | null => {
+  if (points.length === 0) return null;
+  let remaining = Math.max(0, distance);
+  for (let i = 1; i < points.length; i++) {
+    const segment = haversineDistance(points[i - 1], points[i]);
+    if (remaining <= segment && segment > 0) {
+      const ratio = remaining / segment;
+      return {
+        lat: points[i - 1].lat + (points[i].lat - points[i - 1].lat) * ratio,
+        lng: points[i - 1].lng + (points[i].lng - points[i - 1].lng) * ratio,
+      };
+    }
+    remaining -= segment;
+  }
+  const last = points[points.length - 1];
+  return { lat: last.lat, lng: last.lng };
+};
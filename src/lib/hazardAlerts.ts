@@ -0,0 +1,57 @@
+import { haversineDistance, type LatLngPoint } from './geo';
+import type { HazardCategory, HazardResponse } from './api';
+
+// 산책 중 신고된 위험 요소에 가까워지면 알림 (지오펜스)
+
+/** 기본으로 알림을 받을 카테고리 (사람이 바로 피해야 하는 위험) */
+export const DEFAULT_HAZARD_ALERT_CATEGORIES: HazardCategory[] = ['AGGRESSIVE_DOG', 'HAZARDOUS_MATERIAL', 'WILDLIFE'];
+
+/** 알림 반경 선택지 (미터) */
+export const HAZARD_ALERT_RADIUS_OPTIONS = [30, 50, 100, 200];
+
+export interface HazardAlertOptions {
+  /** 이 거리 안으로 들어오면 알림 (미터) */
+  radius: number;
+  /** 알림을 받을 카테고리 */
+  categories: HazardCategory[];
+}
+
+export interface HazardAlert {
+  hazard: HazardResponse;
+  /** 알림 시점의 거리 (미터) */
+  distance: number;
+}
+
+export interface HazardGeofence {
+  /** 현재 위치 반영. 새로 반경 안에 들어온 위험 요소를 가까운 순으로 반환 */
+  update: (position: LatLngPoint, hazards: HazardResponse[]) => HazardAlert[];
+  /** 알림 기록 초기화 (새 산책 시작 시) */
+  reset: () => void;
+}
+
+/**
+ * 같은 위험 요소는 한 산책에서 한 번만 알림
+ */
+export const createHazardGeofence = (options: HazardAlertOptions): HazardGeofence => {
+  const alertedIds = new Set<number>();
+
+  return {
+    update: (position, hazards) => {
+      if (options.categories.length === 0) return [];
+
+      const alerts: HazardAlert[] = [];
+      hazards.forEach((hazard) => {
+        if (alertedIds.has(hazard.id) || !options.categories.includes(hazard.category)) return;
+        const distance = haversineDistance(position, { lat: hazard.latitude, lng: hazard.longitude });
+        if (distance <= options.radius) {
+          alertedIds.add(hazard.id);
+          alerts.push({ hazard, distance });
+        }
+      });
+      return alerts.sort((a, b) => a.distance - b.distance);
+    },
+    reset: () => {
+      alertedIds.clear();
+    },
+  };
+};
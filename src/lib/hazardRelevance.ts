@@ -0,0 +1,121 @@
+import type { HazardActiveHours, HazardCategory, HazardResponse } from './api';
+import { getHazardCategoryTtlDays } from './hazards';
+
+// 신고 시점, 시간대, 다른 산책자의 확인 투표에 따라 지금 보여줄 만한 위험 요소인지 판단
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 시간대를 따로 정하지 않은 신고에 적용하는 카테고리 기본 시간대 */
+export const DEFAULT_ACTIVE_HOURS: Partial<Record<HazardCategory, HazardActiveHours>> = {
+  // 조명 부족은 어두울 때만 의미가 있음
+  LOW_LIGHT: { startHour: 18, endHour: 6 },
+};
+
+// 이 비율까지는 선명하게, 이후 자동 숨김 시점까지 점점 흐리게
+const FADE_START_RATIO = 0.25;
+/** 자동 숨김 직전의 투명도 */
+export const MIN_HAZARD_OPACITY = 0.35;
+
+interface HazardTiming {
+  category: string;
+  createdAt: string;
+  activeHours?: HazardActiveHours | null;
+  stillThereCount?: number;
+  goneCount?: number;
+  lastConfirmedAt?: string | null;
+  isArchived?: boolean;
+}
+
+/** "없어졌어요"가 이만큼 모이고 "아직 있어요"보다 많으면 보관 처리 */
+export const HAZARD_ARCHIVE_GONE_VOTES = 3;
+
+// 투표가 없을 때의 신뢰도 (신고를 "아직 있어요" 한 표로 보고 양쪽에 한 표씩 더한 값)
+const NEUTRAL_CONFIDENCE = 2 / 3;
+
+/** 신고 후 지난 날 수 */
+export const getHazardAgeDays = (hazard: Pick<HazardResponse, 'createdAt'>, now = new Date()) =>
+  Math.max(0, (now.getTime() - new Date(hazard.createdAt).getTime()) / DAY_MS);
+
+// 마지막으로 있는 것이 확인된 뒤 지난 날 수 ("아직 있어요" 투표가 있으면 그 시점부터)
+const getFreshnessDays = (hazard: HazardTiming, now: Date) => {
+  const reportedDays = getHazardAgeDays(hazard, now);
+  return hazard.lastConfirmedAt
+    ? Math.min(reportedDays, getHazardAgeDays({ createdAt: hazard.lastConfirmedAt }, now))
+    : reportedDays;
+};
+
+/** 자동 숨김까지 남은 날 수 (지났으면 0) */
+export const getHazardRemainingDays = (hazard: HazardTiming, now = new Date()) =>
+  Math.max(0, getHazardCategoryTtlDays(hazard.category) - getFreshnessDays(hazard, now));
+
+export const isHazardExpired = (hazard: HazardTiming, now = new Date()) =>
+  getFreshnessDays(hazard, now) >= getHazardCategoryTtlDays(hazard.category);
+
+/**
+ * 확인 투표로 계산한 신뢰도 (0~1)
+ * 신고 자체를 "아직 있어요" 한 표로 보고, 투표가 적을 때 한쪽으로 쏠리지 않도록 양쪽에 한 표씩 더함
+ */
+export const getHazardConfidence = (hazard: HazardTiming) => {
+  const stillThere = 1 + (hazard.stillThereCount ?? 0);
+  const gone = hazard.goneCount ?? 0;
+  return (stillThere + 1) / (stillThere + gone + 2);
+};
+
+/** "없어졌어요" 투표가 충분히 모였거나 서버에서 보관 처리된 신고 */
+export const isHazardArchived = (hazard: HazardTiming) => {
+  if (hazard.isArchived) return true;
+  const gone = hazard.goneCount ?? 0;
+  return gone >= HAZARD_ARCHIVE_GONE_VOTES && gone > (hazard.stillThereCount ?? 0);
+};
+
+/** 신뢰도가 높은 순 (같으면 최근 신고 먼저) */
+export const sortHazardsByConfidence = <T extends HazardTiming>(hazards: T[]): T[] =>
+  [...hazards].sort((a, b) =>
+    getHazardConfidence(b) - getHazardConfidence(a) ||
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+
+/** 신고에 저장된 시간대 (없으면 카테고리 기본값, 그것도 없으면 하루 종일) */
+export const getHazardActiveHours = (hazard: HazardTiming): HazardActiveHours | null =>
+  hazard.activeHours ?? DEFAULT_ACTIVE_HOURS[hazard.category as HazardCategory] ?? null;
+
+export const isWithinActiveHours = (hours: HazardActiveHours, now = new Date()) => {
+  const hour = now.getHours();
+  if (hours.startHour === hours.endHour) return true;
+  return hours.startHour < hours.endHour
+    ? hour >= hours.startHour && hour < hours.endHour
+    : hour >= hours.startHour || hour < hours.endHour;
+};
+
+/**
+ * 지금 지도에 보여줄 위험 요소인지 (보관되지 않았고, 자동 숨김 기간이 지나지 않았고, 해당 시간대인 경우)
+ */
+export const isHazardRelevant = (hazard: HazardTiming, now = new Date()) => {
+  if (isHazardArchived(hazard) || isHazardExpired(hazard, now)) return false;
+  const hours = getHazardActiveHours(hazard);
+  return !hours || isWithinActiveHours(hours, now);
+};
+
+/**
+ * 오래되었거나 "없어졌어요" 투표가 많은 신고일수록 흐리게 표시할 투명도 (1 ~ MIN_HAZARD_OPACITY)
+ */
+export const getHazardOpacity = (hazard: HazardTiming, now = new Date()) => {
+  const ttl = getHazardCategoryTtlDays(hazard.category);
+  const ratio = getFreshnessDays(hazard, now) / ttl;
+  const fade = ratio <= FADE_START_RATIO ? 0 : Math.min(1, (ratio - FADE_START_RATIO) / (1 - FADE_START_RATIO));
+  const ageOpacity = 1 - fade * (1 - MIN_HAZARD_OPACITY);
+  const confidenceFactor = Math.min(1, getHazardConfidence(hazard) / NEUTRAL_CONFIDENCE);
+  return Math.max(MIN_HAZARD_OPACITY, ageOpacity * confidenceFactor);
+};
+
+/** 시간대 표시 (예: 18시~06시) */
+export const formatActiveHours = (hours: HazardActiveHours) =>
+  `${hours.startHour.toString().padStart(2, '0')}시~${hours.endHour.toString().padStart(2, '0')}시`;
+
+/** 신고 시점 표시 (예: 오늘, 3일 전, 2개월 전) */
+export const formatHazardAge = (hazard: Pick<HazardResponse, 'createdAt'>, now = new Date()) => {
+  const days = Math.floor(getHazardAgeDays(hazard, now));
+  if (days < 1) return '오늘';
+  if (days < 30) return `${days}일 전`;
+  return `${Math.floor(days / 30)}개월 전`;
+};
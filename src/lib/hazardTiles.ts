@@ -0,0 +1,155 @@
+import { haversineDistance, type LatLngPoint } from './geo';
+import { hazardApi, type HazardResponse } from './api';
+
+// 지도에 보이는 범위의 위험 요소를 격자(타일) 단위로 불러와 메모리에 캐시
+
+/** 타일 한 변 (위도/경도 도) — 서울 기준 약 1.1km × 0.9km */
+export const HAZARD_TILE_SIZE = 0.01;
+
+/** 캐시한 타일을 다시 불러오기까지의 시간 (ms) */
+export const HAZARD_TILE_TTL_MS = 5 * 60 * 1000;
+
+/** 이보다 많은 타일이 보이면(너무 축소한 경우) 새로 불러오지 않음 */
+export const MAX_HAZARD_TILES_PER_VIEW = 24;
+
+/** 캐시에 보관하는 최대 타일 수 (넘으면 가장 오래 쓰지 않은 타일부터 버림) */
+export const MAX_CACHED_HAZARD_TILES = 200;
+
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+interface HazardTile {
+  key: string;
+  bounds: MapBounds;
+}
+
+interface CachedTile {
+  hazards: HazardResponse[];
+  loadedAt: number;
+}
+
+/** 지도 범위에 걸친 타일 목록 */
+export const getTilesForBounds = (bounds: MapBounds): HazardTile[] => {
+  const tiles: HazardTile[] = [];
+  const rowStart = Math.floor(bounds.south / HAZARD_TILE_SIZE);
+  const rowEnd = Math.floor(bounds.north / HAZARD_TILE_SIZE);
+  const colStart = Math.floor(bounds.west / HAZARD_TILE_SIZE);
+  const colEnd = Math.floor(bounds.east / HAZARD_TILE_SIZE);
+
+  for (let row = rowStart; row <= rowEnd; row++) {
+    for (let col = colStart; col <= colEnd; col++) {
+      tiles.push({
+        key: `${row}:${col}`,
+        bounds: {
+          south: row * HAZARD_TILE_SIZE,
+          west: col * HAZARD_TILE_SIZE,
+          north: (row + 1) * HAZARD_TILE_SIZE,
+          east: (col + 1) * HAZARD_TILE_SIZE,
+        },
+      });
+    }
+  }
+  return tiles;
+};
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+/** 위치를 중심으로 한 변이 2 × halfSize(미터)인 범위 */
+export const getBoundsAround = (center: LatLngPoint, halfSize: number): MapBounds => {
+  const latDelta = halfSize / METERS_PER_DEGREE_LAT;
+  const lngDelta = latDelta / Math.cos((center.lat * Math.PI) / 180);
+  return {
+    south: center.lat - latDelta,
+    west: center.lng - lngDelta,
+    north: center.lat + latDelta,
+    east: center.lng + lngDelta,
+  };
+};
+
+const isInBounds = (hazard: HazardResponse, bounds: MapBounds) =>
+  hazard.latitude >= bounds.south && hazard.latitude < bounds.north &&
+  hazard.longitude >= bounds.west && hazard.longitude < bounds.east;
+
+// 타일 하나 불러오기 (타일을 감싸는 원으로 조회한 뒤 타일 안의 것만 남김)
+const fetchTile = async (tile: HazardTile, signal: AbortSignal) => {
+  const center = {
+    lat: (tile.bounds.south + tile.bounds.north) / 2,
+    lng: (tile.bounds.west + tile.bounds.east) / 2,
+  };
+  const radius = Math.ceil(haversineDistance(center, { lat: tile.bounds.north, lng: tile.bounds.east }));
+  const response = await hazardApi.getNearby(center.lat, center.lng, radius, signal);
+  if (!response.success || !response.data) {
+    throw new Error(response.message || '위험 요소를 불러오지 못했습니다.');
+  }
+  return response.data.filter((hazard) => isInBounds(hazard, tile.bounds));
+};
+
+/**
+ * 타일 캐시. 지도마다 하나씩 만들어 사용
+ */
+export const createHazardTileCache = (ttl = HAZARD_TILE_TTL_MS, maxTiles = MAX_CACHED_HAZARD_TILES) => {
+  // Map은 넣은 순서를 유지하므로 쓸 때마다 다시 넣어 가장 최근에 쓴 타일이 뒤로 가게 함
+  const tiles = new Map<string, CachedTile>();
+
+  const isFresh = (key: string, now: number) => {
+    const cached = tiles.get(key);
+    return !!cached && now - cached.loadedAt < ttl;
+  };
+
+  // 캐시에 있는 타일의 위험 요소
+  const collect = (visibleTiles: HazardTile[]) =>
+    visibleTiles.flatMap((tile) => {
+      const cached = tiles.get(tile.key);
+      if (!cached) return [];
+      tiles.delete(tile.key);
+      tiles.set(tile.key, cached);
+      return cached.hazards;
+    });
+
+  // 새 타일을 넣기 전에 만료된 타일과 한도를 넘는 오래된 타일 정리
+  const store = (key: string, hazards: HazardResponse[]) => {
+    const now = Date.now();
+    tiles.delete(key);
+    tiles.forEach((cached, cachedKey) => {
+      if (now - cached.loadedAt >= ttl) tiles.delete(cachedKey);
+    });
+    for (const oldestKey of tiles.keys()) {
+      if (tiles.size < maxTiles) break;
+      tiles.delete(oldestKey);
+    }
+    tiles.set(key, { hazards, loadedAt: now });
+  };
+
+  return {
+    /**
+     * 지도 범위의 위험 요소. 캐시에 없거나 오래된 타일만 서버에서 불러옴
+     * signal이 취소되면 AbortError/CanceledError로 끝남
+     */
+    load: async (bounds: MapBounds, signal: AbortSignal): Promise<HazardResponse[]> => {
+      const visibleTiles = getTilesForBounds(bounds);
+      if (visibleTiles.length > MAX_HAZARD_TILES_PER_VIEW) {
+        return collect(visibleTiles);
+      }
+
+      const now = Date.now();
+      const missingTiles = visibleTiles.filter((tile) => !isFresh(tile.key, now));
+      await Promise.all(
+        missingTiles.map(async (tile) => {
+          const hazards = await fetchTile(tile, signal);
+          store(tile.key, hazards);
+        })
+      );
+      return collect(visibleTiles);
+    },
+    /** 캐시 비우기 (신고/수정/삭제 후 새로고침) */
+    clear: () => {
+      tiles.clear();
+    },
+  };
+};
+
+export type HazardTileCache = ReturnType<typeof createHazardTileCache>;
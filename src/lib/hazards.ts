@@ -0,0 +1,35 @@
+import type { HazardCategory } from './api';
+
+// 위험 요소 카테고리 공통 정보
+
+// ttlDays: 신고 후 이 기간이 지나면 지도에서 자동으로 숨김
+export const HAZARD_CATEGORIES: { value: HazardCategory; label: string; color: string; icon: string; ttlDays: number }[] = [
+  { value: 'LEASH', label: '목줄 미착용', color: '#f97316', icon: '🦮', ttlDays: 14 },
+  { value: 'MUZZLE', label: '입마개 미착용', color: '#eab308', icon: '🐕', ttlDays: 14 },
+  { value: 'AGGRESSIVE_DOG', label: '공격적인 개', color: '#dc2626', icon: '💢', ttlDays: 60 },
+  { value: 'HAZARDOUS_MATERIAL', label: '위험물질', color: '#9333ea', icon: '☠️', ttlDays: 7 },
+  { value: 'WILDLIFE', label: '야생동물 출몰', color: '#16a34a', icon: '🐗', ttlDays: 30 },
+  { value: 'LOW_LIGHT', label: '조명 부족', color: '#475569', icon: '🌙', ttlDays: 180 },
+  { value: 'BIKE_CAR', label: '자전거·차량 위험', color: '#2563eb', icon: '🚲', ttlDays: 90 },
+  { value: 'POOP_LEFT', label: '배변 미수거', color: '#92400e', icon: '💩', ttlDays: 3 },
+  { value: 'OTHER', label: '기타', color: '#6b7280', icon: '❗', ttlDays: 30 },
+];
+
+/** 모든 카테고리 값 (지도 필터 기본값) */
+export const ALL_HAZARD_CATEGORIES: HazardCategory[] = HAZARD_CATEGORIES.map((item) => item.value);
+
+/** 카테고리 표시 이름 */
+export const getHazardCategoryLabel = (category: string): string =>
+  HAZARD_CATEGORIES.find((item) => item.value === category)?.label || category;
+
+/** 카테고리 색상 (지도 클러스터 등) */
+export const getHazardCategoryColor = (category: string): string =>
+  HAZARD_CATEGORIES.find((item) => item.value === category)?.color || '#6b7280';
+
+/** 카테고리 아이콘 (지도 마커, 범례) */
+export const getHazardCategoryIcon = (category: string): string =>
+  HAZARD_CATEGORIES.find((item) => item.value === category)?.icon || '❗';
+
+/** 카테고리별 자동 숨김 기간 (일) */
+export const getHazardCategoryTtlDays = (category: string): number =>
+  HAZARD_CATEGORIES.find((item) => item.value === category)?.ttlDays || 30;
@@ -0,0 +1,53 @@
+import type { LiveWalkResponse } from './api';
+
+// 산책 실시간 공유 (가족이 링크로 산책 위치를 지켜봄)
+
+// 산책하는 쪽의 위치 전송 주기
+export const LIVE_SHARE_PUBLISH_INTERVAL_MS = 10000;
+// 보는 쪽의 갱신 주기
+export const LIVE_VIEW_POLL_INTERVAL_MS = 10000;
+// 위치 전송이 이 시간 이상 끊기면 연결이 끊긴 것으로 표시
+const LIVE_STALE_MS = 60000;
+
+export const getLiveShareUrl = (token: string) => `${window.location.origin}/live/${token}`;
+
+/**
+ * 위치 전송이 한동안 끊겼는지 여부
+ */
+export const isLiveWalkStale = (walk: LiveWalkResponse, now = Date.now()): boolean => {
+  if (!walk.updatedAt) return false;
+  return now - new Date(walk.updatedAt).getTime() > LIVE_STALE_MS;
+};
+
+/**
+ * 보는 쪽에서 표시할 이동 시간 (초)
+ * 마지막 전송 이후에도 걷는 중이면 시간이 흐르도록 보정 (연결이 끊긴 뒤로는 늘리지 않음)
+ */
+export const getLiveMovingSeconds = (walk: LiveWalkResponse, now = Date.now()): number => {
+  if (walk.isPaused || !walk.isActive || !walk.updatedAt) return walk.movingDuration;
+  const sinceUpdate = Math.max(0, now - new Date(walk.updatedAt).getTime());
+  return walk.movingDuration + Math.floor(Math.min(sinceUpdate, LIVE_STALE_MS) / 1000);
+};
+
+/**
+ * 공유 링크 전달 (공유 시트가 없으면 클립보드에 복사)
+ * @returns 'shared' | 'copied' | 'failed'
+ */
+export const shareLiveLink = async (url: string, title: string): Promise<'shared' | 'copied' | 'failed'> => {
+  if (navigator.share) {
+    try {
+      await navigator.share({ title, url });
+      return 'shared';
+    } catch (error) {
+      // 사용자가 공유 시트를 닫은 경우는 복사로 넘어가지 않음
+      if (error instanceof DOMException && error.name === 'AbortError') return 'failed';
+    }
+  }
+  try {
+    await navigator.clipboard.writeText(url);
+    return 'copied';
+  } catch (error) {
+    console.warn('공유 링크 복사 실패:', error);
+    return 'failed';
+  }
+};
@@ -0,0 +1,214 @@
+import { pathDistance, pointAlongPath, type LatLngPoint } from './geo';
+
+// 위치 제공자: 실제 GPS(navigator.geolocation) 대신 시뮬레이터로 바꿔 끼울 수 있도록 감싼 계층
+// (책상 앞에서 산책 화면을 개발/시연할 때 사용)
+
+export interface LocationProvider {
+  /** 위치를 제공할 수 있는지 여부 */
+  isAvailable: () => boolean;
+  getCurrentPosition: (success: PositionCallback, error?: PositionErrorCallback | null, options?: PositionOptions) => void;
+  watchPosition: (success: PositionCallback, error?: PositionErrorCallback | null, options?: PositionOptions) => number;
+  clearWatch: (watchId: number) => void;
+}
+
+// 실제 기기 GPS
+const browserLocationProvider: LocationProvider = {
+  isAvailable: () => typeof navigator !== 'undefined' && !!navigator.geolocation,
+  getCurrentPosition: (success, error, options) => navigator.geolocation.getCurrentPosition(success, error, options),
+  watchPosition: (success, error, options) => navigator.geolocation.watchPosition(success, error, options),
+  clearWatch: (watchId) => navigator.geolocation.clearWatch(watchId),
+};
+
+export interface LocationSimulationConfig {
+  /** 따라 이동할 경로 (GPX 파일 또는 산책 경로 좌표) */
+  path: LatLngPoint[];
+  /** 이동 속도 (m/s, 0이면 제자리) */
+  speed: number;
+  /** 위치 오차 표준편차 (미터) */
+  noise: number;
+  /** 위치 갱신이 빠질 확률 (0~1) */
+  dropoutRate: number;
+  /** 위치 갱신 주기 (ms) */
+  interval: number;
+  /** 경로 끝에 도착하면 처음부터 반복 */
+  loop: boolean;
+}
+
+export const DEFAULT_SIMULATION_CONFIG: Omit<LocationSimulationConfig, 'path'> = {
+  speed: 1.2,
+  noise: 3,
+  dropoutRate: 0,
+  interval: 1000,
+  loop: false,
+};
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// 표준정규분포 난수 (Box-Muller)
+const randomGaussian = () => {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/**
+ * 경로를 일정 속도로 따라가는 가짜 GPS
+ * 시뮬레이션 시계는 만들어진 시점부터 흐르고, 속도를 바꾸면 현재 위치에서 이어서 이동
+ */
+export const createSimulatedLocationProvider = (initialConfig: LocationSimulationConfig) => {
+  let config = initialConfig;
+  const totalDistance = pathDistance(config.path);
+  // 속도 변경 시 이어서 이동하도록 기준 거리/시각을 갱신
+  let baseDistance = 0;
+  let baseTime = Date.now();
+  let nextWatchId = 1;
+  const timers = new Map<number, ReturnType<typeof setInterval>>();
+
+  const getTravelledDistance = (now: number) => {
+    const travelled = baseDistance + (config.speed * (now - baseTime)) / 1000;
+    if (totalDistance <= 0) return 0;
+    return config.loop ? travelled % totalDistance : Math.min(travelled, totalDistance);
+  };
+
+  const createPosition = (now: number): GeolocationPosition | null => {
+    const point = pointAlongPath(config.path, getTravelledDistance(now));
+    if (!point) return null;
+
+    const northOffset = randomGaussian() * config.noise;
+    const eastOffset = randomGaussian() * config.noise;
+    const latitude = point.lat + northOffset / METERS_PER_DEGREE_LAT;
+    const longitude = point.lng + eastOffset / (METERS_PER_DEGREE_LAT * Math.cos((point.lat * Math.PI) / 180));
+    const coords = {
+      latitude,
+      longitude,
+      accuracy: Math.max(5, config.noise * 2),
+      altitude: null,
+      altitudeAccuracy: null,
+      heading: null,
+      speed: config.speed,
+    };
+    return {
+      coords: { ...coords, toJSON: () => coords },
+      timestamp: now,
+      toJSON: () => ({ coords, timestamp: now }),
+    } as GeolocationPosition;
+  };
+
+  const provider: LocationProvider = {
+    isAvailable: () => config.path.length > 0,
+    getCurrentPosition: (success) => {
+      setTimeout(() => {
+        const position = createPosition(Date.now());
+        if (position) success(position);
+      }, 0);
+    },
+    watchPosition: (success) => {
+      const watchId = nextWatchId++;
+      const emit = () => {
+        // 터널/건물 사이처럼 위치 갱신이 끊기는 상황 재현
+        if (Math.random() < config.dropoutRate) return;
+        const position = createPosition(Date.now());
+        if (position) success(position);
+      };
+      setTimeout(emit, 0);
+      timers.set(watchId, setInterval(emit, config.interval));
+      return watchId;
+    },
+    clearWatch: (watchId) => {
+      const timer = timers.get(watchId);
+      if (timer !== undefined) clearInterval(timer);
+      timers.delete(watchId);
+    },
+  };
+
+  return {
+    provider,
+    /** 속도/오차/끊김 설정 변경 (경로는 그대로) */
+    update: (changes: Partial<Omit<LocationSimulationConfig, 'path'>>) => {
+      const now = Date.now();
+      baseDistance = getTravelledDistance(now);
+      baseTime = now;
+      config = { ...config, ...changes };
+    },
+    /** 현재까지 이동한 거리와 전체 거리 (미터) */
+    getProgress: () => ({ distance: getTravelledDistance(Date.now()), totalDistance }),
+    dispose: () => {
+      timers.forEach((timer) => clearInterval(timer));
+      timers.clear();
+    },
+  };
+};
+
+export type SimulatedLocationProvider = ReturnType<typeof createSimulatedLocationProvider>;
+
+// 화면 쪽에 돌려준 watch ID와 현재 제공자의 watch ID 연결
+interface WatchEntry {
+  success: PositionCallback;
+  error?: PositionErrorCallback | null;
+  options?: PositionOptions;
+  innerId: number;
+}
+
+let activeProvider: LocationProvider = browserLocationProvider;
+let simulation: SimulatedLocationProvider | null = null;
+let nextWatchId = 1;
+const watches = new Map<number, WatchEntry>();
+const listeners = new Set<() => void>();
+
+// 진행 중인 위치 추적을 새 제공자로 옮김
+const switchProvider = (next: LocationProvider) => {
+  watches.forEach((entry) => {
+    activeProvider.clearWatch(entry.innerId);
+    entry.innerId = next.watchPosition(entry.success, entry.error, entry.options);
+  });
+  activeProvider = next;
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * 앱 전체가 사용하는 위치 제공자.
+ * 시뮬레이션을 켜고 끄면 이미 시작된 위치 추적도 새 제공자로 자동 전환됨
+ */
+export const locationProvider: LocationProvider = {
+  isAvailable: () => activeProvider.isAvailable(),
+  getCurrentPosition: (success, error, options) => activeProvider.getCurrentPosition(success, error, options),
+  watchPosition: (success, error, options) => {
+    const watchId = nextWatchId++;
+    watches.set(watchId, { success, error, options, innerId: activeProvider.watchPosition(success, error, options) });
+    return watchId;
+  },
+  clearWatch: (watchId) => {
+    const entry = watches.get(watchId);
+    if (!entry) return;
+    activeProvider.clearWatch(entry.innerId);
+    watches.delete(watchId);
+  },
+};
+
+export const locationSimulator = {
+  /** 시뮬레이션 시작 (이미 실행 중이면 새 경로로 교체) */
+  start: (config: LocationSimulationConfig) => {
+    const previous = simulation;
+    simulation = createSimulatedLocationProvider(config);
+    switchProvider(simulation.provider);
+    previous?.dispose();
+  },
+  /** 실제 GPS로 복귀 */
+  stop: () => {
+    if (!simulation) return;
+    const previous = simulation;
+    simulation = null;
+    switchProvider(browserLocationProvider);
+    previous.dispose();
+  },
+  update: (changes: Partial<Omit<LocationSimulationConfig, 'path'>>) => simulation?.update(changes),
+  getProgress: () => simulation?.getProgress() ?? null,
+  isActive: () => simulation !== null,
+  /** 시뮬레이션 시작/중지 알림 구독 */
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
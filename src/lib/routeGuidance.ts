@@ -0,0 +1,125 @@
+import { haversineDistance, projectOntoSegment, type LatLngPoint } from './geo';
+
+// 선택한 산책 경로 따라가기: 진행률, 남은 거리, 경로 이탈/도착 판단
+
+export interface RouteGuideOptions {
+  /** 경로에서 이 거리(미터) 이상 벗어나면 이탈로 판단 */
+  offRouteDistance: number;
+  /** 도착 지점 반경 (미터) */
+  arrivalRadius: number;
+}
+
+export const DEFAULT_ROUTE_GUIDE_OPTIONS: RouteGuideOptions = {
+  offRouteDistance: 30,
+  arrivalRadius: 20,
+};
+
+/** 경로 이탈 알림 거리 선택지 (미터) */
+export const OFF_ROUTE_DISTANCE_OPTIONS = [20, 30, 50, 100];
+
+export interface RouteProgress {
+  /** 출발점부터 진행한 거리 (미터) */
+  distanceAlong: number;
+  /** 경로 전체 거리 (미터) */
+  totalDistance: number;
+  /** 남은 거리 (미터) */
+  remainingDistance: number;
+  /** 진행률 (0~1) */
+  progress: number;
+  /** 경로까지의 거리 (미터) */
+  distanceFromRoute: number;
+  isOffRoute: boolean;
+  isFinished: boolean;
+}
+
+export interface RouteGuide {
+  update: (point: LatLngPoint) => RouteProgress;
+  reset: () => void;
+}
+
+// 이탈 후 이 비율 이내로 돌아와야 복귀로 판단 (경계에서 알림이 반복되지 않도록)
+const OFF_ROUTE_RECOVERY_RATIO = 0.8;
+// 출발점과 도착점이 같은 순환 경로에서 출발하자마자 도착 처리되지 않도록
+const ARRIVAL_MIN_PROGRESS = 0.8;
+// 진행 위치보다 뒤쪽 구간에 대한 가중치
+const BACKWARD_PENALTY = 2;
+
+export const createRouteGuide = (
+  path: LatLngPoint[],
+  options: RouteGuideOptions = DEFAULT_ROUTE_GUIDE_OPTIONS
+): RouteGuide => {
+  // 각 지점까지의 누적 거리
+  const cumulative = [0];
+  for (let i = 1; i < path.length; i++) {
+    cumulative.push(cumulative[i - 1] + haversineDistance(path[i - 1], path[i]));
+  }
+  const totalDistance = cumulative[cumulative.length - 1] || 0;
+  const end = path[path.length - 1];
+
+  let distanceAlong = 0;
+  let isOffRoute = false;
+  let isFinished = false;
+
+  const update = (point: LatLngPoint): RouteProgress => {
+    let nearestDistance = Infinity;
+    let matchedAlong: number | null = null;
+    let matchedGap = Infinity;
+
+    for (let i = 0; i < path.length - 1; i++) {
+      const { distance, fraction } = projectOntoSegment(point, path[i], path[i + 1]);
+      nearestDistance = Math.min(nearestDistance, distance);
+      if (distance > options.offRouteDistance) continue;
+      // 왕복/교차 경로에서는 여러 구간이 가까우므로 직전 진행 위치와 가장 가까운 구간을 선택
+      // (진행 방향 앞쪽 구간을 우선)
+      const along = cumulative[i] + fraction * (cumulative[i + 1] - cumulative[i]);
+      const gap = along >= distanceAlong ? along - distanceAlong : (distanceAlong - along) * BACKWARD_PENALTY;
+      if (gap < matchedGap) {
+        matchedGap = gap;
+        matchedAlong = along;
+      }
+    }
+
+    if (path.length < 2) {
+      nearestDistance = path.length === 1 ? haversineDistance(point, path[0]) : 0;
+    }
+
+    // 되돌아가더라도 진행률은 줄이지 않음
+    if (matchedAlong !== null) {
+      distanceAlong = Math.max(distanceAlong, matchedAlong);
+    }
+
+    isOffRoute = isOffRoute
+      ? nearestDistance > options.offRouteDistance * OFF_ROUTE_RECOVERY_RATIO
+      : nearestDistance > options.offRouteDistance;
+
+    if (
+      !isFinished &&
+      end &&
+      haversineDistance(point, end) <= options.arrivalRadius &&
+      distanceAlong >= totalDistance * ARRIVAL_MIN_PROGRESS
+    ) {
+      isFinished = true;
+    }
+    if (isFinished) {
+      distanceAlong = totalDistance;
+    }
+
+    return {
+      distanceAlong,
+      totalDistance,
+      remainingDistance: Math.max(0, totalDistance - distanceAlong),
+      progress: totalDistance > 0 ? Math.min(1, distanceAlong / totalDistance) : 0,
+      distanceFromRoute: nearestDistance,
+      isOffRoute,
+      isFinished,
+    };
+  };
+
+  const reset = () => {
+    distanceAlong = 0;
+    isOffRoute = false;
+    isFinished = false;
+  };
+
+  return { update, reset };
+};
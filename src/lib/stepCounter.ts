@@ -0,0 +1,173 @@
+// 걸음 수 계산: 기기 가속도 센서로 걸음을 감지하고, 센서를 쓸 수 없으면 거리로 추정
+
+// 평균 보폭 (미터)
+export const STEP_LENGTH_METERS = 0.7;
+
+/**
+ * 거리 기반 걸음 수 추정 (센서를 쓸 수 없을 때)
+ */
+export const estimateStepsFromDistance = (meters: number): number => meters / STEP_LENGTH_METERS;
+
+export interface MotionSample {
+  /** 중력 포함 가속도 (m/s²) */
+  x: number;
+  y: number;
+  z: number;
+  /** epoch ms */
+  timestamp: number;
+}
+
+export interface StepDetectorConfig {
+  /** 걸음으로 인정할 최소 진폭 (m/s², 중력 제거 후) */
+  minAmplitude: number;
+  /** 걸음 사이 최소/최대 간격 (ms) */
+  minInterval: number;
+  maxInterval: number;
+  /** 규칙적인 걸음이 이만큼 이어져야 걷는 중으로 보고 집계 시작 */
+  warmupSteps: number;
+}
+
+export const DEFAULT_STEP_DETECTOR_CONFIG: StepDetectorConfig = {
+  minAmplitude: 1.2,
+  minInterval: 250,
+  maxInterval: 2000,
+  warmupSteps: 4,
+};
+
+export interface StepDetector {
+  /** 센서 값 반영. 새로 확인된 걸음 수 반환 (집계 시작 시 대기 중이던 걸음을 한 번에 반환) */
+  push: (sample: MotionSample) => number;
+  reset: () => void;
+}
+
+// 신호 평활화 / 중력(기준선) 추적 계수
+const SMOOTHING = 0.25;
+const BASELINE_SMOOTHING = 0.02;
+
+/**
+ * 가속도 크기의 봉우리로 걸음을 감지.
+ * 평활화한 신호가 기준선보다 임계값 이상 올라갔다가 내려오면 한 걸음으로 보고,
+ * 손을 흔드는 등 불규칙한 움직임은 연속된 규칙적인 걸음이 확인될 때까지 집계하지 않음
+ */
+export const createStepDetector = (config: StepDetectorConfig = DEFAULT_STEP_DETECTOR_CONFIG): StepDetector => {
+  let smoothed: number | null = null;
+  let baseline: number | null = null;
+  let isAboveThreshold = false;
+  let peak = 0;
+  let lastStepAt: number | null = null;
+  // 최근 봉우리 크기로 임계값을 조정
+  let threshold = config.minAmplitude;
+  let pendingSteps = 0;
+  let isWalking = false;
+
+  const registerStep = (timestamp: number): number => {
+    const interval = lastStepAt === null ? null : timestamp - lastStepAt;
+    if (interval !== null && interval < config.minInterval) return 0;
+    lastStepAt = timestamp;
+
+    // 간격이 너무 길면 걷기가 끊긴 것으로 보고 다시 확인
+    if (interval === null || interval > config.maxInterval) {
+      isWalking = false;
+      pendingSteps = 1;
+      return 0;
+    }
+    if (isWalking) return 1;
+
+    pendingSteps += 1;
+    if (pendingSteps >= config.warmupSteps) {
+      isWalking = true;
+      const confirmed = pendingSteps;
+      pendingSteps = 0;
+      return confirmed;
+    }
+    return 0;
+  };
+
+  return {
+    push: (sample) => {
+      const magnitude = Math.sqrt(sample.x * sample.x + sample.y * sample.y + sample.z * sample.z);
+      smoothed = smoothed === null ? magnitude : smoothed + SMOOTHING * (magnitude - smoothed);
+      baseline = baseline === null ? magnitude : baseline + BASELINE_SMOOTHING * (magnitude - baseline);
+      const signal = smoothed - baseline;
+
+      if (!isAboveThreshold) {
+        if (signal >= threshold) {
+          isAboveThreshold = true;
+          peak = signal;
+        }
+        return 0;
+      }
+
+      peak = Math.max(peak, signal);
+      // 기준선 아래로 내려와야 한 걸음이 끝난 것으로 봄
+      if (signal > 0) return 0;
+
+      isAboveThreshold = false;
+      threshold = Math.max(config.minAmplitude, peak * 0.5);
+      return registerStep(sample.timestamp);
+    },
+    reset: () => {
+      smoothed = null;
+      baseline = null;
+      isAboveThreshold = false;
+      peak = 0;
+      lastStepAt = null;
+      threshold = config.minAmplitude;
+      pendingSteps = 0;
+      isWalking = false;
+    },
+  };
+};
+
+export type MotionPermission = 'granted' | 'denied' | 'unsupported';
+
+// iOS 13+ Safari는 사용자 동작 안에서 권한을 요청해야 함
+type DeviceMotionEventWithPermission = typeof DeviceMotionEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>;
+};
+
+/**
+ * 동작 센서 권한 요청. iOS에서는 버튼 클릭 등 사용자 동작 처리 중에 호출해야 함
+ */
+export const requestMotionPermission = async (): Promise<MotionPermission> => {
+  if (typeof window === 'undefined' || typeof DeviceMotionEvent === 'undefined') return 'unsupported';
+
+  const motionEvent = DeviceMotionEvent as DeviceMotionEventWithPermission;
+  if (typeof motionEvent.requestPermission !== 'function') return 'granted';
+
+  try {
+    return (await motionEvent.requestPermission()) === 'granted' ? 'granted' : 'denied';
+  } catch (error) {
+    console.warn('동작 센서 권한 요청 실패:', error);
+    return 'denied';
+  }
+};
+
+/**
+ * 기기 동작 센서로 걸음 감지 시작. 중지 함수 반환
+ * 센서 값이 실제로 들어오기 시작하면 onActive 호출 (센서가 없는 데스크톱 등은 호출되지 않음)
+ */
+export const watchSteps = (onStep: (steps: number) => void, onActive?: () => void): (() => void) => {
+  const detector = createStepDetector();
+  let isActive = false;
+
+  const handleMotion = (event: DeviceMotionEvent) => {
+    const acceleration = event.accelerationIncludingGravity;
+    if (!acceleration || acceleration.x === null || acceleration.y === null || acceleration.z === null) return;
+
+    if (!isActive) {
+      isActive = true;
+      onActive?.();
+    }
+    const steps = detector.push({
+      x: acceleration.x,
+      y: acceleration.y,
+      z: acceleration.z,
+      timestamp: Date.now(),
+    });
+    if (steps > 0) onStep(steps);
+  };
+
+  window.addEventListener('devicemotion', handleMotion);
+  return () => window.removeEventListener('devicemotion', handleMotion);
+};
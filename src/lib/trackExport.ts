@@ -0,0 +1,208 @@
+import type { WalkRoute, WalkSessionResponse } from './api';
+
+// 산책 경로/기록을 외부 도구에서 쓸 수 있는 GPX 1.1, KML, GeoJSON 파일로 변환
+
+export interface ExportPoint {
+  lat: number;
+  lng: number;
+  /** 기록 시각 (epoch ms) */
+  timestamp?: number;
+}
+
+export interface ExportTrack {
+  name: string;
+  description?: string;
+  /** 기록 시작 시각 (epoch ms) */
+  startTime?: number;
+  points: ExportPoint[];
+  /** 반려동물/세션 정보 등 추가 메타데이터 */
+  metadata: Record<string, string | number | boolean | null | undefined>;
+}
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  gpx: 'GPX',
+  kml: 'KML',
+  geojson: 'GeoJSON',
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const toIso = (timestamp: number) => new Date(timestamp).toISOString();
+
+// 값이 있는 메타데이터만 추림
+const metadataEntries = (track: ExportTrack) =>
+  Object.entries(track.metadata).filter(
+    (entry): entry is [string, string | number | boolean] => entry[1] !== null && entry[1] !== undefined && entry[1] !== ''
+  );
+
+const hasTimestamps = (track: ExportTrack) =>
+  track.points.length > 0 && track.points.every((point) => point.timestamp !== undefined);
+
+/** GPX 1.1 변환 */
+export const toGpx = (track: ExportTrack): string => {
+  const name = escapeXml(track.name);
+  const extensions = metadataEntries(track)
+    .map(([key, value]) => `      <pawvent:${key}>${escapeXml(String(value))}</pawvent:${key}>`)
+    .join('\n');
+  const points = track.points
+    .map((point) => {
+      const time = point.timestamp !== undefined ? `<time>${toIso(point.timestamp)}</time>` : '';
+      return `      <trkpt lat="${point.lat}" lon="${point.lng}">${time}</trkpt>`;
+    })
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Pawvent" xmlns="http://www.topografix.com/GPX/1/1" xmlns:pawvent="urn:pawvent:gpx:1">',
+    '  <metadata>',
+    `    <name>${name}</name>`,
+    track.description ? `    <desc>${escapeXml(track.description)}</desc>` : '',
+    track.startTime !== undefined ? `    <time>${toIso(track.startTime)}</time>` : '',
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${name}</name>`,
+    extensions ? `    <extensions>\n${extensions}\n    </extensions>` : '',
+    '    <trkseg>',
+    points,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+};
+
+/** KML 변환 (시각 정보가 있으면 gx:Track, 없으면 LineString) */
+export const toKml = (track: ExportTrack): string => {
+  const extendedData = metadataEntries(track)
+    .map(([key, value]) => `        <Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`)
+    .join('\n');
+  const geometry = hasTimestamps(track)
+    ? [
+        '      <gx:Track>',
+        ...track.points.map((point) => `        <when>${toIso(point.timestamp!)}</when>`),
+        ...track.points.map((point) => `        <gx:coord>${point.lng} ${point.lat} 0</gx:coord>`),
+        '      </gx:Track>',
+      ].join('\n')
+    : [
+        '      <LineString>',
+        '        <tessellate>1</tessellate>',
+        `        <coordinates>${track.points.map((point) => `${point.lng},${point.lat},0`).join(' ')}</coordinates>`,
+        '      </LineString>',
+      ].join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(track.name)}</name>`,
+    '    <Placemark>',
+    `      <name>${escapeXml(track.name)}</name>`,
+    track.description ? `      <description>${escapeXml(track.description)}</description>` : '',
+    extendedData ? `      <ExtendedData>\n${extendedData}\n      </ExtendedData>` : '',
+    geometry,
+    '    </Placemark>',
+    '  </Document>',
+    '</kml>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+};
+
+/** GeoJSON 변환 (시각 정보는 properties.coordTimes) */
+export const toGeoJson = (track: ExportTrack): string => {
+  const properties: Record<string, unknown> = {
+    name: track.name,
+    ...(track.description && { description: track.description }),
+    ...(track.startTime !== undefined && { time: toIso(track.startTime) }),
+    ...Object.fromEntries(metadataEntries(track)),
+  };
+  if (hasTimestamps(track)) {
+    properties.coordTimes = track.points.map((point) => toIso(point.timestamp!));
+  }
+  const feature = {
+    type: 'Feature',
+    properties,
+    geometry: {
+      type: 'LineString',
+      coordinates: track.points.map((point) => [point.lng, point.lat]),
+    },
+  };
+  return JSON.stringify({ type: 'FeatureCollection', features: [feature] }, null, 2);
+};
+
+const CONVERTERS: Record<ExportFormat, (track: ExportTrack) => string> = {
+  gpx: toGpx,
+  kml: toKml,
+  geojson: toGeoJson,
+};
+
+// 파일 이름에 쓸 수 없는 문자 제거
+const toFileName = (name: string) => name.replace(/[\\/:*?"<>|]/g, '').trim().replace(/\s+/g, '_') || 'pawvent';
+
+/** 파일로 다운로드 */
+export const downloadTrack = (track: ExportTrack, format: ExportFormat) => {
+  const blob = new Blob([CONVERTERS[format](track)], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${toFileName(track.name)}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/** 산책 경로를 내보내기 형식으로 변환 */
+export const routeToExportTrack = (route: WalkRoute): ExportTrack => ({
+  name: route.name,
+  startTime: route.createdAt ? new Date(route.createdAt).getTime() : undefined,
+  points: (route.coordinates || []).map((coord) => ({ lat: coord.latitude, lng: coord.longitude })),
+  metadata: {
+    routeId: route.id,
+    distance: route.distance,
+    duration: route.duration,
+    shared: route.isShared,
+    author: route.authorNickname,
+  },
+});
+
+/** 산책 기록을 내보내기 형식으로 변환 */
+export const sessionToExportTrack = (session: WalkSessionResponse): ExportTrack => {
+  const startTime = new Date(session.startTime).getTime();
+  return {
+    name: `${new Date(session.startTime).toLocaleDateString('ko-KR')} ${session.petName || ''} 산책`.trim(),
+    description: session.routeName ? `경로: ${session.routeName}` : undefined,
+    startTime,
+    points: (session.track || []).map((point) => ({
+      lat: point.latitude,
+      lng: point.longitude,
+      timestamp: new Date(point.recordedAt).getTime(),
+    })),
+    metadata: {
+      sessionId: session.id,
+      petId: session.petId,
+      petName: session.petName,
+      routeId: session.routeId,
+      routeName: session.routeName,
+      distance: session.distance,
+      duration: session.duration,
+      startTime: session.startTime,
+      endTime: session.endTime,
+    },
+  };
+};
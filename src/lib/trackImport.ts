@@ -0,0 +1,172 @@
+import { pathDistance, simplifyPath, estimateWalkDuration, type LatLngPoint } from './geo';
+
+// 다른 앱에서 기록한 GPX/GeoJSON 파일을 산책 경로로 가져오기
+
+export interface ImportedPoint extends LatLngPoint {
+  /** 기록 시각 (epoch ms, 파일에 없으면 undefined) */
+  timestamp?: number;
+}
+
+export interface ImportedTrack {
+  name: string;
+  /** 단순화된 경로 */
+  points: ImportedPoint[];
+  /** 단순화 전 위치 개수 */
+  originalPointCount: number;
+  /** 거리 (미터) */
+  distance: number;
+  /** 예상 소요 시간 (초) */
+  duration: number;
+}
+
+// 밀집된 경로를 단순화할 때의 허용 오차 (미터)
+const SIMPLIFY_TOLERANCE = 3;
+
+const parseTime = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+};
+
+const isValidPoint = (point: ImportedPoint) =>
+  Number.isFinite(point.lat) && Number.isFinite(point.lng) &&
+  Math.abs(point.lat) <= 90 && Math.abs(point.lng) <= 180;
+
+/**
+ * 여러 조각으로 나뉜 경로 중 가장 긴 조각
+ * 조각 사이를 이으면 끊긴 구간이 직선으로 거리에 더해지므로 하나만 사용
+ */
+const pickLongestPart = (parts: ImportedPoint[][]): ImportedPoint[] =>
+  parts
+    .map((part) => part.filter(isValidPoint))
+    .reduce<ImportedPoint[]>((longest, part) => (pathDistance(part) > pathDistance(longest) ? part : longest), []);
+
+/** GPX 파싱 (트랙 우선, 없으면 경로(rte) 사용, 여러 구간이면 가장 긴 구간) */
+export const parseGpx = (text: string): { name?: string; points: ImportedPoint[] } => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('GPX 파일 형식이 올바르지 않습니다.');
+  }
+
+  const readPoints = (parent: Document | Element, tagName: string): ImportedPoint[] =>
+    Array.from(parent.getElementsByTagName(tagName)).map((element) => ({
+      lat: parseFloat(element.getAttribute('lat') || ''),
+      lng: parseFloat(element.getAttribute('lon') || ''),
+      timestamp: parseTime(element.getElementsByTagName('time')[0]?.textContent),
+    }));
+  // 구간(trkseg/rte)별로 나눠 읽음
+  const readParts = (partTagName: string, tagName: string) =>
+    Array.from(doc.getElementsByTagName(partTagName))
+      .map((part) => readPoints(part, tagName))
+      .filter((part) => part.length > 0);
+
+  const trackParts = readParts('trkseg', 'trkpt');
+  const parts = trackParts.length > 0 ? trackParts : readParts('rte', 'rtept');
+  const points = parts.length > 0 ? pickLongestPart(parts) : readPoints(doc, 'trkpt');
+  const nameElement =
+    doc.querySelector('trk > name') || doc.querySelector('rte > name') || doc.querySelector('metadata > name');
+
+  return { name: nameElement?.textContent?.trim() || undefined, points };
+};
+
+type GeoJsonPosition = number[];
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJsonGeometry[];
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: GeoJsonGeometry | null;
+  properties?: Record<string, unknown> | null;
+}
+
+// 지오메트리에서 선(LineString) 좌표 추출
+const extractLines = (geometry: GeoJsonGeometry | null): GeoJsonPosition[][] => {
+  if (!geometry) return [];
+  switch (geometry.type) {
+    case 'LineString':
+      return [geometry.coordinates as GeoJsonPosition[]];
+    case 'MultiLineString':
+      return geometry.coordinates as GeoJsonPosition[][];
+    case 'GeometryCollection':
+      return (geometry.geometries || []).flatMap(extractLines);
+    default:
+      return [];
+  }
+};
+
+/** GeoJSON 파싱 (첫 번째 LineString/MultiLineString 피처 사용, 여러 선이면 가장 긴 선) */
+export const parseGeoJson = (text: string): { name?: string; points: ImportedPoint[] } => {
+  let data: { type?: string; features?: GeoJsonFeature[] } | null;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('GeoJSON 파일 형식이 올바르지 않습니다.');
+  }
+  if (!data || typeof data !== 'object') {
+    throw new Error('GeoJSON 파일 형식이 올바르지 않습니다.');
+  }
+
+  const features: GeoJsonFeature[] =
+    data.type === 'FeatureCollection'
+      ? data.features || []
+      : data.type === 'Feature'
+        ? [data as unknown as GeoJsonFeature]
+        : [{ type: 'Feature', geometry: data as unknown as GeoJsonGeometry, properties: null }];
+
+  for (const feature of features) {
+    const lines = extractLines(feature.geometry);
+    if (lines.length === 0) continue;
+    // coordTimes: 여러 도구에서 GeoJSON에 시각을 담는 관례 (MultiLineString이면 선마다 배열)
+    const coordTimes = feature.properties?.coordTimes;
+    let offset = 0;
+    const lineTimes = (lineIndex: number, length: number): string[] => {
+      if (!Array.isArray(coordTimes)) return [];
+      if (Array.isArray(coordTimes[0])) return (coordTimes[lineIndex] as string[] | undefined) || [];
+      offset += length;
+      return (coordTimes as string[]).slice(offset - length, offset);
+    };
+    const points = pickLongestPart(
+      lines.map((line, lineIndex) => {
+        const times = lineTimes(lineIndex, line.length);
+        return line.map(([lng, lat], i) => ({ lat, lng, timestamp: parseTime(times[i]) }));
+      })
+    );
+    const name = feature.properties?.name;
+    return { name: typeof name === 'string' ? name : undefined, points };
+  }
+  return { points: [] };
+};
+
+/** 파싱한 위치 목록을 산책 경로 정보로 정리 */
+export const buildImportedTrack = (name: string, rawPoints: ImportedPoint[]): ImportedTrack => {
+  const validPoints = rawPoints.filter(isValidPoint);
+  if (validPoints.length < 2) {
+    throw new Error('파일에서 경로를 찾을 수 없습니다.');
+  }
+
+  const points = simplifyPath(validPoints, SIMPLIFY_TOLERANCE);
+  const distance = pathDistance(validPoints);
+  // 기록 시각이 있으면 실제 소요 시간, 없으면 거리 기준 예상 시간
+  const firstTime = validPoints[0].timestamp;
+  const lastTime = validPoints[validPoints.length - 1].timestamp;
+  const duration =
+    firstTime !== undefined && lastTime !== undefined && lastTime > firstTime
+      ? Math.round((lastTime - firstTime) / 1000)
+      : estimateWalkDuration(distance);
+
+  return { name, points, originalPointCount: validPoints.length, distance, duration };
+};
+
+/** 파일을 읽어 경로로 변환 (확장자 또는 내용으로 형식 판단) */
+export const importTrackFile = async (file: File): Promise<ImportedTrack> => {
+  const text = await file.text();
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const isGpx = extension === 'gpx' || (extension !== 'geojson' && extension !== 'json' && text.trimStart().startsWith('<'));
+  const parsed = isGpx ? parseGpx(text) : parseGeoJson(text);
+  const fallbackName = file.name.replace(/\.[^.]+$/, '');
+  return buildImportedTrack(parsed.name || fallbackName, parsed.points);
+};
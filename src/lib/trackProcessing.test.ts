@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { pathDistance } from './geo';
+import { processTrack, type RawFix } from './trackProcessing';
+import jitteryWalk from './__fixtures__/jittery-walk.json';
+
+const fixes: RawFix[] = jitteryWalk.fixes;
+
+describe('processTrack (기록된 위치 데이터)', () => {
+  it('필터 없이 이으면 거리가 크게 늘어남', () => {
+    expect(pathDistance(fixes)).toBeGreaterThan(jitteryWalk.trueDistance * 2);
+  });
+
+  it('필터링한 거리는 실제 거리와 10% 이내', () => {
+    const { distance } = processTrack(fixes);
+    expect(Math.abs(distance - jitteryWalk.trueDistance)).toBeLessThan(jitteryWalk.trueDistance * 0.1);
+  });
+
+  it('정확도가 낮은 위치는 정확도 필터에서 모두 걸러짐', () => {
+    const { rejected } = processTrack(fixes);
+    expect(rejected.accuracy).toBe(jitteryWalk.lowAccuracyFixes);
+  });
+
+  it('튄 위치는 속도 필터에서 걸러지고 기록되지 않음', () => {
+    const { rejected, points } = processTrack(fixes);
+    expect(rejected.speed).toBeGreaterThanOrEqual(jitteryWalk.jumpFixes);
+    // 튄 위치는 경로에서 180m 이상 벗어나 있음
+    const start = fixes[0];
+    points.forEach((point) => {
+      expect(Math.abs(point.lng - start.lng) * 111320 * Math.cos((start.lat * Math.PI) / 180)).toBeLessThan(30);
+    });
+  });
+
+  it('스무딩하면 지그재그 오차가 줄어 실제 거리에 더 가까움', () => {
+    const smoothed = processTrack(fixes).distance;
+    const unsmoothed = processTrack(fixes, { smoothing: 'none' }).distance;
+    expect(Math.abs(smoothed - jitteryWalk.trueDistance)).toBeLessThan(Math.abs(unsmoothed - jitteryWalk.trueDistance));
+  });
+});
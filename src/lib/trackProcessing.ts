@@ -0,0 +1,248 @@
+import { haversineDistance, type TrackPoint } from './geo';
+
+// GPS 노이즈 필터링 파이프라인
+// 원시 위치 → (정확도 필터 → 속도 이상치 제거 → 스무딩) → 누적 거리 계산
+// 브라우저 API에 의존하지 않으므로 기록된 위치 데이터로 그대로 검증할 수 있음
+
+/** GPS에서 받은 원시 위치 */
+export interface RawFix extends TrackPoint {
+  /** 정확도 반경 (미터) */
+  accuracy?: number | null;
+}
+
+/**
+ * 파이프라인 단계
+ * process가 null을 반환하면 해당 위치는 버려짐
+ */
+export interface TrackStage {
+  name: string;
+  process: (fix: RawFix) => RawFix | null;
+  reset: () => void;
+}
+
+// 정확도 정보가 없을 때 가정하는 정확도 (미터)
+const DEFAULT_ACCURACY = 10;
+
+/** 정확도 반경이 너무 큰 위치 제거 (실내 GPS 튐 방지) */
+export const accuracyGate = (maxAccuracy: number): TrackStage => ({
+  name: 'accuracy',
+  process: (fix) => {
+    if (fix.accuracy != null && fix.accuracy > maxAccuracy) return null;
+    return fix;
+  },
+  reset: () => {},
+});
+
+/**
+ * 직전 위치 대비 비현실적인 속도로 이동한 위치 제거
+ * 연속으로 maxConsecutiveRejects번 거부되면 GPS가 새 위치를 잡은 것으로 보고 다시 받아들임
+ */
+export const speedGate = (maxSpeed: number, maxConsecutiveRejects: number = 3): TrackStage => {
+  let lastFix: RawFix | null = null;
+  let rejectCount = 0;
+  return {
+    name: 'speed',
+    process: (fix) => {
+      if (lastFix) {
+        const seconds = (fix.timestamp - lastFix.timestamp) / 1000;
+        const distance = haversineDistance(lastFix, fix);
+        const speed = seconds > 0 ? distance / seconds : Infinity;
+        // 같은 시각에 들어온 위치는 정확도 반경 안이면 허용
+        const allowed = seconds > 0
+          ? speed <= maxSpeed
+          : distance <= (fix.accuracy ?? DEFAULT_ACCURACY);
+        if (!allowed && rejectCount < maxConsecutiveRejects) {
+          rejectCount++;
+          return null;
+        }
+      }
+      rejectCount = 0;
+      lastFix = fix;
+      return fix;
+    },
+    reset: () => {
+      lastFix = null;
+      rejectCount = 0;
+    },
+  };
+};
+
+/**
+ * 칼만 필터 스무딩 (위도/경도 각각 독립된 1차원 필터)
+ * @param processNoise 초당 예상 이동량 (m/s), 클수록 새 위치를 더 빨리 따라감
+ */
+export const kalmanSmoother = (processNoise: number = 3): TrackStage => {
+  let lat = 0;
+  let lng = 0;
+  let lastTimestamp = 0;
+  let variance = -1; // 음수면 아직 초기화되지 않음 (미터²)
+  return {
+    name: 'kalman',
+    process: (fix) => {
+      const accuracy = Math.max(1, fix.accuracy ?? DEFAULT_ACCURACY);
+      if (variance < 0) {
+        lat = fix.lat;
+        lng = fix.lng;
+        variance = accuracy * accuracy;
+      } else {
+        const seconds = (fix.timestamp - lastTimestamp) / 1000;
+        if (seconds > 0) {
+          variance += seconds * processNoise * processNoise;
+        }
+        const gain = variance / (variance + accuracy * accuracy);
+        lat += gain * (fix.lat - lat);
+        lng += gain * (fix.lng - lng);
+        variance = (1 - gain) * variance;
+      }
+      lastTimestamp = fix.timestamp;
+      return { ...fix, lat, lng, accuracy: Math.sqrt(variance) };
+    },
+    reset: () => {
+      variance = -1;
+      lastTimestamp = 0;
+    },
+  };
+};
+
+/** 최근 window개 위치의 평균으로 스무딩 */
+export const movingAverageSmoother = (window: number = 3): TrackStage => {
+  let buffer: RawFix[] = [];
+  return {
+    name: 'moving-average',
+    process: (fix) => {
+      buffer = [...buffer, fix].slice(-window);
+      const lat = buffer.reduce((sum, item) => sum + item.lat, 0) / buffer.length;
+      const lng = buffer.reduce((sum, item) => sum + item.lng, 0) / buffer.length;
+      return { ...fix, lat, lng };
+    },
+    reset: () => {
+      buffer = [];
+    },
+  };
+};
+
+export type SmoothingMethod = 'kalman' | 'moving-average' | 'none';
+
+export interface TrackProcessorOptions {
+  /** 허용할 최대 정확도 반경 (미터) */
+  maxAccuracy: number;
+  /** 허용할 최대 이동 속도 (m/s) */
+  maxSpeed: number;
+  smoothing: SmoothingMethod;
+  /** 이동 평균 스무딩에 사용할 위치 개수 */
+  movingAverageWindow: number;
+  /**
+   * 거리에 반영할 최소 이동 거리 (미터)
+   * 직전 위치가 아니라 마지막으로 기록된 지점 기준이므로 느린 걸음도 누적됨
+   */
+  minSegmentDistance: number;
+}
+
+export const DEFAULT_TRACK_OPTIONS: TrackProcessorOptions = {
+  maxAccuracy: 30,
+  maxSpeed: 4, // 약 14km/h, 반려견과 뛰는 정도까지 허용
+  smoothing: 'kalman',
+  movingAverageWindow: 3,
+  minSegmentDistance: 4,
+};
+
+export interface TrackProcessResult {
+  /** 파이프라인을 통과했는지 여부 */
+  accepted: boolean;
+  /** 거부한 단계 이름 (TrackStage.name) */
+  rejectedBy?: string;
+  /** 스무딩된 위치 */
+  point?: TrackPoint;
+  /** 경로에 새 지점으로 기록해야 하는지 여부 */
+  recorded: boolean;
+  /** 이번 위치로 늘어난 거리 (미터) */
+  segmentDistance: number;
+}
+
+export interface TrackProcessor {
+  push: (fix: RawFix) => TrackProcessResult;
+  /** 필터 상태 초기화 (anchor를 주면 그 지점부터 거리 누적) */
+  reset: (anchor?: TrackPoint | null) => void;
+}
+
+/** 옵션에 맞는 기본 파이프라인 단계 생성 */
+export const createDefaultStages = (options: TrackProcessorOptions): TrackStage[] => {
+  const stages: TrackStage[] = [accuracyGate(options.maxAccuracy), speedGate(options.maxSpeed)];
+  if (options.smoothing === 'kalman') {
+    stages.push(kalmanSmoother());
+  } else if (options.smoothing === 'moving-average') {
+    stages.push(movingAverageSmoother(options.movingAverageWindow));
+  }
+  return stages;
+};
+
+/**
+ * 위치 처리기 생성
+ * @param stages 직접 구성한 파이프라인 (생략하면 옵션에 맞는 기본 파이프라인)
+ */
+export const createTrackProcessor = (
+  options: Partial<TrackProcessorOptions> = {},
+  stages?: TrackStage[]
+): TrackProcessor => {
+  const resolved: TrackProcessorOptions = { ...DEFAULT_TRACK_OPTIONS, ...options };
+  const pipeline = stages ?? createDefaultStages(resolved);
+  let anchor: TrackPoint | null = null;
+
+  return {
+    push: (fix) => {
+      let current: RawFix | null = fix;
+      for (const stage of pipeline) {
+        current = stage.process(current);
+        if (!current) {
+          return { accepted: false, rejectedBy: stage.name, recorded: false, segmentDistance: 0 };
+        }
+      }
+
+      const point: TrackPoint = { lat: current.lat, lng: current.lng, timestamp: current.timestamp };
+      if (!anchor) {
+        anchor = point;
+        return { accepted: true, point, recorded: true, segmentDistance: 0 };
+      }
+
+      const segmentDistance = haversineDistance(anchor, point);
+      if (segmentDistance < resolved.minSegmentDistance) {
+        return { accepted: true, point, recorded: false, segmentDistance: 0 };
+      }
+      anchor = point;
+      return { accepted: true, point, recorded: true, segmentDistance };
+    },
+    reset: (newAnchor = null) => {
+      pipeline.forEach((stage) => stage.reset());
+      anchor = newAnchor;
+    },
+  };
+};
+
+export interface ProcessedTrack {
+  points: TrackPoint[];
+  /** 누적 거리 (미터) */
+  distance: number;
+  /** 단계별 거부 횟수 */
+  rejected: Record<string, number>;
+}
+
+/** 기록된 위치 목록 전체를 한 번에 처리 */
+export const processTrack = (
+  fixes: RawFix[],
+  options: Partial<TrackProcessorOptions> = {},
+  stages?: TrackStage[]
+): ProcessedTrack => {
+  const processor = createTrackProcessor(options, stages);
+  const result: ProcessedTrack = { points: [], distance: 0, rejected: {} };
+  fixes.forEach((fix) => {
+    const processed = processor.push(fix);
+    if (!processed.accepted && processed.rejectedBy) {
+      result.rejected[processed.rejectedBy] = (result.rejected[processed.rejectedBy] || 0) + 1;
+    }
+    if (processed.recorded && processed.point) {
+      result.points.push(processed.point);
+      result.distance += processed.segmentDistance;
+    }
+  });
+  return result;
+};
@@ -0,0 +1,38 @@
+// 실행 취소/다시 실행 기록 (편집 중인 값을 불변 상태로 관리)
+
+export interface UndoHistory<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export const createHistory = <T>(initial: T): UndoHistory<T> => ({
+  past: [],
+  present: initial,
+  future: [],
+});
+
+/** 새 값을 기록 (다시 실행 기록은 버림) */
+export const pushHistory = <T>(history: UndoHistory<T>, next: T): UndoHistory<T> => ({
+  past: [...history.past, history.present],
+  present: next,
+  future: [],
+});
+
+export const undoHistory = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+export const redoHistory = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
@@ -0,0 +1,73 @@
+import type { HazardCategory } from './api';
+import { DEFAULT_HAZARD_ALERT_CATEGORIES } from './hazardAlerts';
+import { ALL_HAZARD_CATEGORIES } from './hazards';
+import type { VoiceEventType, VoiceLanguage, VoiceSplit } from './voiceGuide';
+
+// 사용자별 앱 설정 (기기 로컬 저장)
+
+export type AutoPauseMode = 'off' | 'sensitive' | 'relaxed';
+
+export interface UserSettings {
+  /** 산책 중 자동 일시정지 감도 */
+  autoPauseMode: AutoPauseMode;
+  /** 경로 따라가기 중 이탈 알림 거리 (미터) */
+  offRouteDistance: number;
+  /** 보호자 몸무게 (kg, 칼로리 계산용) */
+  ownerWeight: number | null;
+  /** 산책 중 위험 요소 접근 알림 반경 (미터) */
+  hazardAlertRadius: number;
+  /** 접근 알림을 받을 위험 요소 카테고리 */
+  hazardAlertCategories: HazardCategory[];
+  /** 지도에 표시할 위험 요소 카테고리 */
+  hazardMapCategories: HazardCategory[];
+  /** 산책 중 음성 안내 */
+  voiceEnabled: boolean;
+  voiceLanguage: VoiceLanguage;
+  /** 음성 이름 (null이면 브라우저 기본 음성) */
+  voiceName: string | null;
+  /** 음성으로 알려줄 항목 */
+  voiceEvents: VoiceEventType[];
+  /** 구간 기록 안내 주기 */
+  voiceSplit: VoiceSplit;
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  autoPauseMode: 'sensitive',
+  offRouteDistance: 30,
+  ownerWeight: null,
+  hazardAlertRadius: 50,
+  hazardAlertCategories: DEFAULT_HAZARD_ALERT_CATEGORIES,
+  hazardMapCategories: ALL_HAZARD_CATEGORIES,
+  voiceEnabled: false,
+  voiceLanguage: 'ko-KR',
+  voiceName: null,
+  voiceEvents: ['split', 'hazard', 'routeFinished'],
+  voiceSplit: { unit: 'distance', interval: 1000 },
+};
+
+// 로그인한 사용자마다 설정을 따로 저장
+const getStorageKey = () => {
+  const userId = localStorage.getItem('userId');
+  return userId ? `userSettings:${userId}` : 'userSettings';
+};
+
+export const userSettings = {
+  // 설정 불러오기 (저장되지 않은 항목은 기본값)
+  load: (): UserSettings => {
+    try {
+      const raw = localStorage.getItem(getStorageKey());
+      const saved = raw ? (JSON.parse(raw) as Partial<UserSettings>) : {};
+      return { ...DEFAULT_USER_SETTINGS, ...saved };
+    } catch (error) {
+      console.warn('사용자 설정 불러오기 실패:', error);
+      return { ...DEFAULT_USER_SETTINGS };
+    }
+  },
+
+  // 설정 일부 변경 후 저장
+  save: (changes: Partial<UserSettings>): UserSettings => {
+    const next = { ...userSettings.load(), ...changes };
+    localStorage.setItem(getStorageKey(), JSON.stringify(next));
+    return next;
+  },
+};
@@ -0,0 +1,167 @@
+import type { HazardCategory } from './api';
+import { getHazardCategoryLabel } from './hazards';
+import { userSettings } from './userSettings';
+
+// 산책 중 음성 안내 (Web Speech API)
+
+export type VoiceEventType = 'split' | 'hazard' | 'routeFinished';
+
+export const VOICE_EVENT_TYPES: VoiceEventType[] = ['split', 'hazard', 'routeFinished'];
+
+export const VOICE_EVENT_LABELS: Record<VoiceEventType, string> = {
+  split: '구간 기록 (거리·시간)',
+  hazard: '앞쪽 위험 요소',
+  routeFinished: '경로 목표 도착',
+};
+
+export type VoiceLanguage = 'ko-KR' | 'en-US';
+
+export const VOICE_LANGUAGE_LABELS: Record<VoiceLanguage, string> = {
+  'ko-KR': '한국어',
+  'en-US': 'English',
+};
+
+export type VoiceSplitUnit = 'distance' | 'time';
+
+export interface VoiceSplit {
+  unit: VoiceSplitUnit;
+  /** distance면 미터, time이면 분 */
+  interval: number;
+}
+
+export const VOICE_SPLIT_OPTIONS: VoiceSplit[] = [
+  { unit: 'distance', interval: 500 },
+  { unit: 'distance', interval: 1000 },
+  { unit: 'time', interval: 5 },
+  { unit: 'time', interval: 10 },
+];
+
+export const getVoiceSplitLabel = (split: VoiceSplit) =>
+  split.unit === 'distance'
+    ? `${split.interval >= 1000 ? `${split.interval / 1000}km` : `${split.interval}m`}마다`
+    : `${split.interval}분마다`;
+
+export const isSpeechSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * 언어에 맞는 음성 목록. 브라우저가 음성을 늦게 불러오는 경우 onChange로 다시 알려줌
+ * @returns 구독 해제 함수
+ */
+export const watchVoices = (language: VoiceLanguage, onChange: (voices: SpeechSynthesisVoice[]) => void) => {
+  if (!isSpeechSupported()) {
+    onChange([]);
+    return () => {};
+  }
+  const update = () => {
+    const prefix = language.split('-')[0];
+    onChange(window.speechSynthesis.getVoices().filter((voice) => voice.lang.replace('_', '-').startsWith(prefix)));
+  };
+  update();
+  window.speechSynthesis.addEventListener('voiceschanged', update);
+  return () => window.speechSynthesis.removeEventListener('voiceschanged', update);
+};
+
+export interface SpeakOptions {
+  language: VoiceLanguage;
+  /** 선택한 음성 이름 (없으면 브라우저 기본 음성) */
+  voiceName: string | null;
+}
+
+/**
+ * 문장 읽기. 앞선 안내가 끝나지 않았으면 뒤에 이어서 읽음
+ */
+export const speak = (text: string, options: SpeakOptions) => {
+  if (!isSpeechSupported()) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = options.language;
+  if (options.voiceName) {
+    const voice = window.speechSynthesis.getVoices().find((item) => item.name === options.voiceName);
+    if (voice) utterance.voice = voice;
+  }
+  window.speechSynthesis.speak(utterance);
+};
+
+export const cancelSpeech = () => {
+  if (isSpeechSupported()) window.speechSynthesis.cancel();
+};
+
+/**
+ * 설정에서 음성 안내와 해당 항목을 켠 경우에만 읽음
+ */
+export const announce = (event: VoiceEventType, getText: (language: VoiceLanguage) => string) => {
+  const settings = userSettings.load();
+  if (!settings.voiceEnabled || !settings.voiceEvents.includes(event)) return;
+  speak(getText(settings.voiceLanguage), { language: settings.voiceLanguage, voiceName: settings.voiceName });
+};
+
+/**
+ * 구간 도달 감지. 새 구간에 들어서면 구간 번호(1부터)를 반환
+ */
+export const createSplitTracker = (split: VoiceSplit) => {
+  let lastSplit = 0;
+  return {
+    update: (distanceMeters: number, movingSeconds: number): number | null => {
+      const value = split.unit === 'distance' ? distanceMeters : movingSeconds / 60;
+      const current = Math.floor(value / split.interval);
+      if (current <= lastSplit) return null;
+      lastSplit = current;
+      return current;
+    },
+    /** 이어서 산책할 때 이미 지난 구간은 건너뜀 */
+    reset: (distanceMeters = 0, movingSeconds = 0) => {
+      const value = split.unit === 'distance' ? distanceMeters : movingSeconds / 60;
+      lastSplit = Math.floor(value / split.interval);
+    },
+  };
+};
+
+// 읽기 좋은 거리/시간 표현
+const toSpokenDistance = (meters: number, language: VoiceLanguage) => {
+  if (meters < 1000) {
+    const rounded = Math.round(meters / 10) * 10;
+    return language === 'ko-KR' ? `${rounded}미터` : `${rounded} meters`;
+  }
+  const km = (meters / 1000).toFixed(1);
+  return language === 'ko-KR' ? `${km}킬로미터` : `${km} kilometers`;
+};
+
+const toSpokenDuration = (seconds: number, language: VoiceLanguage) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  if (language === 'ko-KR') {
+    return [hours > 0 && `${hours}시간`, minutes > 0 && `${minutes}분`, (hours === 0 && secs > 0) && `${secs}초`]
+      .filter(Boolean)
+      .join(' ') || '0초';
+  }
+  return [hours > 0 && `${hours} hours`, minutes > 0 && `${minutes} minutes`, (hours === 0 && secs > 0) && `${secs} seconds`]
+    .filter(Boolean)
+    .join(' ') || '0 seconds';
+};
+
+const HAZARD_CATEGORY_ENGLISH: Record<HazardCategory, string> = {
+  LEASH: 'an unleashed dog',
+  MUZZLE: 'a dog without a muzzle',
+  AGGRESSIVE_DOG: 'an aggressive dog',
+  HAZARDOUS_MATERIAL: 'hazardous material',
+  WILDLIFE: 'wildlife',
+  LOW_LIGHT: 'poor lighting',
+  BIKE_CAR: 'bike or car traffic',
+  POOP_LEFT: 'dog waste',
+  OTHER: 'a hazard',
+};
+
+export const getSplitAnnouncement = (distanceMeters: number, movingSeconds: number, language: VoiceLanguage) =>
+  language === 'ko-KR'
+    ? `${toSpokenDistance(distanceMeters, language)} 걸었어요. 이동 시간 ${toSpokenDuration(movingSeconds, language)}.`
+    : `Distance ${toSpokenDistance(distanceMeters, language)}. Time ${toSpokenDuration(movingSeconds, language)}.`;
+
+export const getHazardAnnouncement = (category: HazardCategory, distanceMeters: number, language: VoiceLanguage) =>
+  language === 'ko-KR'
+    ? `${toSpokenDistance(distanceMeters, language)} 앞에 ${getHazardCategoryLabel(category)} 신고가 있어요. 주의하세요.`
+    : `Caution, ${HAZARD_CATEGORY_ENGLISH[category]} reported ${toSpokenDistance(distanceMeters, language)} ahead.`;
+
+export const getRouteFinishedAnnouncement = (routeDistanceMeters: number, language: VoiceLanguage) =>
+  language === 'ko-KR'
+    ? `경로 목표에 도착했어요. ${toSpokenDistance(routeDistanceMeters, language)} 경로를 완주했어요.`
+    : `You have reached the end of the ${toSpokenDistance(routeDistanceMeters, language)} route.`;
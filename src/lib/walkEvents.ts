@@ -0,0 +1,83 @@
+import type { WalkEventDto, WalkEventType } from './api';
+import type { LatLngPoint } from './geo';
+
+// 산책 중 기록하는 이벤트 (배변, 물 마시기, 놀이, 사진) - 위치와 시각을 함께 기록
+
+export interface WalkEvent extends LatLngPoint {
+  /** 로컬 식별자 (지도 마커 key 등) */
+  id: string;
+  type: WalkEventType;
+  /** 기록 시각 (epoch ms) */
+  timestamp: number;
+  imageUrl?: string;
+}
+
+/** 버튼에 표시할 순서 */
+export const WALK_EVENT_TYPES: WalkEventType[] = ['PEE', 'POOP_PICKED_UP', 'POOP_BAG_NEEDED', 'DRINK', 'PLAY', 'PHOTO'];
+
+export const WALK_EVENT_LABELS: Record<WalkEventType, string> = {
+  PEE: '소변',
+  POOP_PICKED_UP: '대변 (수거)',
+  POOP_BAG_NEEDED: '대변 (봉투 필요)',
+  DRINK: '물',
+  PLAY: '놀이',
+  PHOTO: '사진',
+};
+
+export const WALK_EVENT_EMOJIS: Record<WalkEventType, string> = {
+  PEE: '💧',
+  POOP_PICKED_UP: '💩',
+  POOP_BAG_NEEDED: '🛍️',
+  DRINK: '🥣',
+  PLAY: '🎾',
+  PHOTO: '📷',
+};
+
+export const WALK_EVENT_COLORS: Record<WalkEventType, string> = {
+  PEE: '#eab308',
+  POOP_PICKED_UP: '#92400e',
+  POOP_BAG_NEEDED: '#dc2626',
+  DRINK: '#0ea5e9',
+  PLAY: '#16a34a',
+  PHOTO: '#7c3aed',
+};
+
+export const createWalkEvent = (
+  type: WalkEventType,
+  position: LatLngPoint,
+  timestamp: number,
+  imageUrl?: string
+): WalkEvent => ({
+  id: `${type}-${timestamp}`,
+  type,
+  lat: position.lat,
+  lng: position.lng,
+  timestamp,
+  ...(imageUrl && { imageUrl }),
+});
+
+/** 종류별 횟수 (배변 횟수 등 건강 기록용) */
+export const countWalkEvents = (events: Array<{ type: WalkEventType }>): Partial<Record<WalkEventType, number>> =>
+  events.reduce<Partial<Record<WalkEventType, number>>>((counts, event) => {
+    counts[event.type] = (counts[event.type] || 0) + 1;
+    return counts;
+  }, {});
+
+/** 완료 요청에 포함할 형식으로 변환 */
+export const toWalkEventDtos = (events: WalkEvent[]): WalkEventDto[] =>
+  events.map((event) => ({
+    type: event.type,
+    latitude: event.lat,
+    longitude: event.lng,
+    occurredAt: new Date(event.timestamp).toISOString(),
+    ...(event.imageUrl && { imageUrl: event.imageUrl }),
+  }));
+
+/** 서버에 저장된 이벤트를 로컬 형식으로 변환 */
+export const fromWalkEventDtos = (events: WalkEventDto[]): WalkEvent[] =>
+  events.map((event) => createWalkEvent(
+    event.type,
+    { lat: event.latitude, lng: event.longitude },
+    new Date(event.occurredAt).getTime(),
+    event.imageUrl || undefined
+  ));
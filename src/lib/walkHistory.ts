@@ -0,0 +1,76 @@
+import type { WalkSessionResponse } from './api';
+
+// 산책 기록 목록 필터/정렬
+
+export type WalkSortOrder = 'newest' | 'oldest' | 'distance' | 'duration';
+
+export const WALK_SORT_LABELS: Record<WalkSortOrder, string> = {
+  newest: '최신순',
+  oldest: '오래된순',
+  distance: '거리순',
+  duration: '시간순',
+};
+
+export interface WalkHistoryFilter {
+  petId: number | null;
+  routeId: number | null;
+  /** 시작일 (YYYY-MM-DD, 포함) */
+  startDate: string;
+  /** 종료일 (YYYY-MM-DD, 포함) */
+  endDate: string;
+}
+
+export const EMPTY_WALK_HISTORY_FILTER: WalkHistoryFilter = {
+  petId: null,
+  routeId: null,
+  startDate: '',
+  endDate: '',
+};
+
+/** 로컬 날짜 기준 YYYY-MM-DD */
+export const toLocalDateKey = (date: Date) => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const filterWalkSessions = (sessions: WalkSessionResponse[], filter: WalkHistoryFilter) =>
+  sessions.filter((session) => {
+    if (filter.petId !== null && session.petId !== filter.petId) return false;
+    if (filter.routeId !== null && session.routeId !== filter.routeId) return false;
+    const dateKey = toLocalDateKey(new Date(session.startTime));
+    if (filter.startDate && dateKey < filter.startDate) return false;
+    if (filter.endDate && dateKey > filter.endDate) return false;
+    return true;
+  });
+
+export const sortWalkSessions = (sessions: WalkSessionResponse[], order: WalkSortOrder) => {
+  const sorted = [...sessions];
+  const startTime = (session: WalkSessionResponse) => new Date(session.startTime).getTime();
+  switch (order) {
+    case 'oldest':
+      return sorted.sort((a, b) => startTime(a) - startTime(b));
+    case 'distance':
+      return sorted.sort((a, b) => (b.distance ?? 0) - (a.distance ?? 0));
+    case 'duration':
+      return sorted.sort((a, b) => (b.duration ?? 0) - (a.duration ?? 0));
+    default:
+      return sorted.sort((a, b) => startTime(b) - startTime(a));
+  }
+};
+
+/** 기록에 등장하는 반려동물/경로 목록 (필터 선택지) */
+export const getWalkFilterOptions = (sessions: WalkSessionResponse[]) => {
+  const pets = new Map<number, string>();
+  const routes = new Map<number, string>();
+  sessions.forEach((session) => {
+    pets.set(session.petId, session.petName);
+    if (session.routeId !== null) {
+      routes.set(session.routeId, session.routeName || `경로 #${session.routeId}`);
+    }
+  });
+  return {
+    pets: Array.from(pets, ([id, name]) => ({ id, name })),
+    routes: Array.from(routes, ([id, name]) => ({ id, name })),
+  };
+};
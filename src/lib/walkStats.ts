@@ -0,0 +1,76 @@
+import { haversineDistance, type LatLngPoint, type TrackPoint } from './geo';
+import type { WalkTimeline } from './walkTimeline';
+
+// 산책 기록 분석 (구간별 속도, 경로 주변 위험 요소)
+
+export interface SpeedSample {
+  /** 산책 시작부터 경과 시간 (초, 구간 시작 기준) */
+  elapsed: number;
+  /** 구간 평균 속도 (m/s) */
+  speed: number;
+}
+
+// 두 위치 사이에 일시정지 구간이 걸쳐 있는지
+const overlapsPause = (from: number, to: number, timeline: WalkTimeline) =>
+  timeline.some((segment) => segment.type === 'paused' && segment.start < to && (segment.end ?? Infinity) > from);
+
+/**
+ * 일정 시간 구간별 평균 속도
+ * 위치 기록이 없는 구간(일시정지 등)은 속도 0
+ * 일시정지에 걸치거나 구간 길이보다 오래 끊긴 두 위치 사이는 이동으로 세지 않음
+ * @param bucketSeconds 구간 길이 (초)
+ * @param timeline 일시정지 구간을 알 수 있으면 전달
+ */
+export const computeSpeedSeries = (points: TrackPoint[], bucketSeconds = 60, timeline: WalkTimeline = []): SpeedSample[] => {
+  if (points.length < 2) return [];
+  const startTime = points[0].timestamp;
+  const endTime = points[points.length - 1].timestamp;
+  const totalSeconds = (endTime - startTime) / 1000;
+  const bucketCount = Math.max(1, Math.ceil(totalSeconds / bucketSeconds));
+  const distances = new Array<number>(bucketCount).fill(0);
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1].timestamp;
+    const to = points[i].timestamp;
+    if (to - from > bucketSeconds * 1000 || overlapsPause(from, to, timeline)) continue;
+    const elapsed = (to - startTime) / 1000;
+    const bucket = Math.min(bucketCount - 1, Math.floor(elapsed / bucketSeconds));
+    distances[bucket] += haversineDistance(points[i - 1], points[i]);
+  }
+
+  return distances.map((distance, i) => {
+    // 마지막 구간은 실제로 기록된 시간만큼으로 나눔
+    const coveredSeconds = Math.min(bucketSeconds, totalSeconds - i * bucketSeconds);
+    return {
+      elapsed: i * bucketSeconds,
+      speed: coveredSeconds > 0 ? distance / coveredSeconds : 0,
+    };
+  });
+};
+
+/**
+ * 경로에서 일정 거리 이내에 있는 항목
+ * @param radius 경로로부터의 거리 (미터)
+ */
+export const findNearPath = <T extends { latitude: number; longitude: number }>(
+  items: T[],
+  path: LatLngPoint[],
+  radius: number
+): T[] =>
+  items.filter((item) => {
+    const position = { lat: item.latitude, lng: item.longitude };
+    return path.some((point) => haversineDistance(point, position) <= radius);
+  });
+
+/** 경로를 모두 포함하는 원 (중심과 반경, 미터) */
+export const getPathBoundingCircle = (path: LatLngPoint[]): { center: LatLngPoint; radius: number } | null => {
+  if (path.length === 0) return null;
+  const lats = path.map((point) => point.lat);
+  const lngs = path.map((point) => point.lng);
+  const center = {
+    lat: (Math.min(...lats) + Math.max(...lats)) / 2,
+    lng: (Math.min(...lngs) + Math.max(...lngs)) / 2,
+  };
+  const radius = Math.max(...path.map((point) => haversineDistance(center, point)));
+  return { center, radius };
+};
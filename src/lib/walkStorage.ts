@@ -0,0 +1,95 @@
+import type { TrackPoint } from './geo';
+import type { WalkTimeline } from './walkTimeline';
+import type { WalkEvent } from './walkEvents';
+
+// 진행 중인 산책을 로컬에 저장해 새로고침/탭 종료 후에도 복구할 수 있도록 함
+const STORAGE_KEY = 'activeWalk';
+// 마지막으로 함께 산책한 반려동물
+const LAST_PET_IDS_KEY = 'lastWalkPetIds';
+
+export interface PersistedWalk {
+  /** 함께 진행 중인 세션 ID 목록 (첫 번째가 대표 세션) */
+  sessionIds: number[];
+  /** 산책 시작 시각 (epoch ms) */
+  startTime: number;
+  timeline: WalkTimeline;
+  positions: TrackPoint[];
+  distance: number;
+  stepCount: number;
+  /** 산책 중 기록한 이벤트 */
+  events?: WalkEvent[];
+  /** 따라가는 중인 경로 ID */
+  guidedRouteId?: number | null;
+  /** 실시간 공유 중인 링크 토큰 */
+  liveShareToken?: string | null;
+  /** 마지막 저장 시각 (epoch ms) */
+  savedAt: number;
+}
+
+export const walkStorage = {
+  // 진행 중인 산책 저장
+  save: (walk: Omit<PersistedWalk, 'savedAt'>) => {
+    try {
+      const data: PersistedWalk = { ...walk, savedAt: Date.now() };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    } catch (error) {
+      // 저장 공간 부족 등은 산책 진행을 막지 않도록 경고만 남김
+      console.warn('진행 중인 산책 저장 실패:', error);
+    }
+  },
+
+  // 저장된 산책 불러오기
+  load: (): PersistedWalk | null => {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return null;
+      const data = JSON.parse(raw) as PersistedWalk;
+      if (!Array.isArray(data.sessionIds) || data.sessionIds.length === 0 || typeof data.startTime !== 'number') {
+        return null;
+      }
+      return {
+        ...data,
+        timeline: data.timeline || [],
+        positions: data.positions || [],
+        distance: data.distance || 0,
+        stepCount: data.stepCount || 0,
+      };
+    } catch (error) {
+      console.warn('저장된 산책 불러오기 실패:', error);
+      return null;
+    }
+  },
+
+  // 실시간 공유를 중지했을 때 저장된 토큰만 지움 (저장 시각은 유지)
+  clearLiveShareToken: () => {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return;
+      const data = JSON.parse(raw) as PersistedWalk;
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...data, liveShareToken: null }));
+    } catch (error) {
+      console.warn('실시간 공유 토큰 삭제 실패:', error);
+    }
+  },
+
+  // 저장된 산책 삭제
+  clear: () => {
+    localStorage.removeItem(STORAGE_KEY);
+  },
+
+  // 마지막으로 선택한 반려동물 저장
+  saveLastPetIds: (petIds: number[]) => {
+    localStorage.setItem(LAST_PET_IDS_KEY, JSON.stringify(petIds));
+  },
+
+  // 마지막으로 선택한 반려동물 불러오기
+  loadLastPetIds: (): number[] => {
+    try {
+      const raw = localStorage.getItem(LAST_PET_IDS_KEY);
+      const data = raw ? JSON.parse(raw) : [];
+      return Array.isArray(data) ? data.filter((id): id is number => typeof id === 'number') : [];
+    } catch {
+      return [];
+    }
+  },
+};
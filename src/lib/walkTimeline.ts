@@ -0,0 +1,105 @@
+// 산책 타임라인: 활동/일시정지 구간으로 이동 시간과 정지 시간을 구분해 기록
+
+export type TimelineSegmentType = 'active' | 'paused';
+
+/** 일시정지 원인 (사용자가 직접 / 자동 감지) */
+export type PauseReason = 'manual' | 'auto';
+
+export interface TimelineSegment {
+  type: TimelineSegmentType;
+  /** 일시정지 구간의 원인 */
+  reason?: PauseReason;
+  /** 구간 시작 시각 (epoch ms) */
+  start: number;
+  /** 구간 종료 시각 (epoch ms, 진행 중이면 null) */
+  end: number | null;
+}
+
+export type WalkTimeline = TimelineSegment[];
+
+export interface TimelineSummary {
+  /** 이동 시간 (초) */
+  movingSeconds: number;
+  /** 일시정지 시간 (초) */
+  pausedSeconds: number;
+  /** 전체 시간 (초) */
+  totalSeconds: number;
+}
+
+/** 새 타임라인 생성 (활동 구간으로 시작) */
+export const createTimeline = (now: number): WalkTimeline => [
+  { type: 'active', start: now, end: null },
+];
+
+/** 진행 중인 구간 */
+export const getOpenSegment = (timeline: WalkTimeline): TimelineSegment | null => {
+  const last = timeline[timeline.length - 1];
+  return last && last.end === null ? last : null;
+};
+
+export const isTimelinePaused = (timeline: WalkTimeline): boolean =>
+  getOpenSegment(timeline)?.type === 'paused';
+
+/** 현재 일시정지 중이면 그 원인 */
+export const getPauseReason = (timeline: WalkTimeline): PauseReason | null => {
+  const open = getOpenSegment(timeline);
+  return open?.type === 'paused' ? open.reason ?? 'manual' : null;
+};
+
+/** 타임라인 시작 시각 */
+export const getTimelineStart = (timeline: WalkTimeline): number | null =>
+  timeline.length > 0 ? timeline[0].start : null;
+
+// 진행 중인 구간을 닫고 새 구간을 시작 (같은 타입이면 그대로 유지)
+// now가 진행 중인 구간 시작보다 이전이면 구간 시작 시각으로 맞춤
+const switchSegment = (
+  timeline: WalkTimeline,
+  type: TimelineSegmentType,
+  now: number,
+  reason?: PauseReason
+): WalkTimeline => {
+  const open = getOpenSegment(timeline);
+  if (open?.type === type) return timeline;
+  const at = open ? Math.max(open.start, now) : now;
+  const closed = timeline.map((segment) =>
+    segment === open ? { ...segment, end: at } : segment
+  );
+  const next: TimelineSegment = reason ? { type, reason, start: at, end: null } : { type, start: at, end: null };
+  return [...closed, next];
+};
+
+export const pauseTimeline = (timeline: WalkTimeline, now: number, reason: PauseReason = 'manual'): WalkTimeline =>
+  switchSegment(timeline, 'paused', now, reason);
+
+export const resumeTimeline = (timeline: WalkTimeline, now: number): WalkTimeline =>
+  switchSegment(timeline, 'active', now);
+
+/** 산책 종료 시 진행 중인 구간을 닫음 */
+export const closeTimeline = (timeline: WalkTimeline, now: number): WalkTimeline =>
+  timeline.map((segment) =>
+    segment.end === null ? { ...segment, end: Math.max(segment.start, now) } : segment
+  );
+
+/**
+ * 구간별 시간 합계 계산
+ * @param now 진행 중인 구간의 기준 시각 (epoch ms)
+ */
+export const summarizeTimeline = (timeline: WalkTimeline, now: number): TimelineSummary => {
+  let movingMs = 0;
+  let pausedMs = 0;
+  timeline.forEach((segment) => {
+    const duration = Math.max(0, (segment.end ?? now) - segment.start);
+    if (segment.type === 'active') {
+      movingMs += duration;
+    } else {
+      pausedMs += duration;
+    }
+  });
+  const movingSeconds = Math.floor(movingMs / 1000);
+  const pausedSeconds = Math.floor(pausedMs / 1000);
+  return {
+    movingSeconds,
+    pausedSeconds,
+    totalSeconds: movingSeconds + pausedSeconds,
+  };
+};
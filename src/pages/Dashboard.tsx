@@ -1,8 +1,12 @@
 import { useState, useEffect } from 'react'
-import { Loader2 } from 'lucide-react'
+import { Link, useNavigate } from 'react-router-dom'
+import { Loader2, ChevronRight } from 'lucide-react'
 import { walkSessionApi, type WalkSessionResponse } from '../lib/api'
+import { sessionToExportTrack, type ExportTrack } from '../lib/trackExport'
+import TrackExportMenu from '../components/TrackExportMenu'
 
 export default function Dashboard() {
+  const navigate = useNavigate()
   const [stats, setStats] = useState<{
     totalTime: number
     totalDistance: number
@@ -123,15 +127,27 @@ export default function Dashboard() {
         </div>
 
         <div className="bg-white rounded-lg shadow p-6">
-          <h3 className="text-lg font-semibold mb-4">최근 산책 기록</h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold">최근 산책 기록</h3>
+            <Link to="/walks" className="flex items-center text-sm text-primary hover:underline">
+              전체 보기
+              <ChevronRight size={16} />
+            </Link>
+          </div>
           {recentSessions.length > 0 ? (
             <div className="space-y-3">
               {recentSessions.map((session) => (
                 <WalkRecord
                   key={session.id}
+                  onClick={() => navigate(`/walks/${session.id}`)}
                   date={formatDate(session.startTime)}
                   time={session.duration ? formatDuration(session.duration) : '-'}
                   distance={session.distance ? formatDistance(session.distance) : '-'}
+                  getExportTrack={
+                    session.track && session.track.length >= 2
+                      ? () => sessionToExportTrack(session)
+                      : undefined
+                  }
                 />
               ))}
             </div>
@@ -145,20 +161,26 @@ export default function Dashboard() {
 }
 
 interface WalkRecordProps {
+  onClick: () => void
   date: string
   time: string
   distance: string
+  getExportTrack?: () => ExportTrack
 }
 
-function WalkRecord({ date, time, distance }: WalkRecordProps) {
+function WalkRecord({ onClick, date, time, distance, getExportTrack }: WalkRecordProps) {
   return (
-    <div className="flex justify-between items-center p-4 bg-gray-50 rounded-lg">
+    <div
+      onClick={onClick}
+      className="flex justify-between items-center p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors cursor-pointer"
+    >
       <div>
         <p className="font-semibold">{date}</p>
         <p className="text-sm text-gray-600">{time}</p>
       </div>
-      <div className="text-right">
+      <div className="flex items-center gap-2">
         <p className="text-lg font-bold text-primary">{distance}</p>
+        {getExportTrack && <TrackExportMenu getTrack={getExportTrack} />}
       </div>
     </div>
   )
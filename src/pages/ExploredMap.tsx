@@ -0,0 +1,277 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { Loader2, ChevronLeft, Flame, Sparkles } from 'lucide-react'
+import KakaoMap, { type MapCoverageCell } from '../components/KakaoMap'
+import { walkSessionApi, walkRouteApi, type WalkSessionResponse, type WalkRoute } from '../lib/api'
+import {
+  buildExplorationMap,
+  getExplorationWalks,
+  getExplorationStats,
+  getHeatColor,
+  getMonthStart,
+  resolveStreetNames,
+  countUniqueStreets,
+  type ExploredSegment,
+} from '../lib/exploration'
+import { useKakaoLoader } from '../lib/useKakaoLoader'
+
+type ExploredMapMode = 'heat' | 'new'
+
+// 많이 지나간 구간 목록 개수
+const TOP_SEGMENT_COUNT = 5
+
+// 지금까지 산책한 모든 곳을 격자로 보여주는 탐험 지도
+export default function ExploredMap() {
+  const [sessions, setSessions] = useState<WalkSessionResponse[]>([])
+  const [routes, setRoutes] = useState<WalkRoute[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [mode, setMode] = useState<ExploredMapMode>('heat')
+  const [selectedSegment, setSelectedSegment] = useState<ExploredSegment | null>(null)
+  const [streetNames, setStreetNames] = useState<Map<string, string | null>>(new Map())
+  const [isResolvingStreets, setIsResolvingStreets] = useState(false)
+  const { isLoaded: isKakaoLoaded } = useKakaoLoader()
+
+  useEffect(() => {
+    const loadWalks = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+        const [sessionResponse, routeResponse] = await Promise.all([
+          walkSessionApi.getMySessions(),
+          walkRouteApi.getMyRoutes(),
+        ])
+        if (sessionResponse.success && sessionResponse.data) {
+          setSessions(sessionResponse.data)
+        } else {
+          setError(sessionResponse.message || '산책 기록을 불러오지 못했습니다.')
+        }
+        if (routeResponse.success && routeResponse.data) {
+          setRoutes(routeResponse.data)
+        }
+      } catch (error) {
+        console.error('탐험 지도 로드 실패:', error)
+        setError('산책 기록을 불러오지 못했습니다.')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadWalks()
+  }, [])
+
+  const walks = useMemo(() => getExplorationWalks(sessions, routes), [sessions, routes])
+  const explorationMap = useMemo(() => buildExplorationMap(walks), [walks])
+  const stats = useMemo(() => getExplorationStats(explorationMap), [explorationMap])
+  const topSegments = explorationMap.segments.slice(0, TOP_SEGMENT_COUNT)
+
+  // 가장 많이 지나간 곳을 지도 중심으로 (지도를 다시 만들지 않도록 기록이 바뀔 때만 계산)
+  const center = useMemo(() => {
+    if (explorationMap.cells.length === 0) return null
+    return explorationMap.cells.reduce((best, cell) => (cell.visits > best.visits ? cell : best)).center
+  }, [explorationMap])
+
+  const segmentPath = useMemo(
+    () => (selectedSegment ? [selectedSegment.from, selectedSegment.to] : undefined),
+    [selectedSegment]
+  )
+
+  const coverageCells = useMemo<MapCoverageCell[]>(() => {
+    const monthStart = getMonthStart()
+    return explorationMap.cells.map((cell) => ({
+      key: cell.key,
+      south: cell.south,
+      west: cell.west,
+      north: cell.north,
+      east: cell.east,
+      color: mode === 'heat'
+        ? getHeatColor(cell.visits)
+        : cell.firstVisitedAt >= monthStart ? '#22c55e' : '#d1d5db',
+    }))
+  }, [explorationMap, mode])
+
+  // 지나간 도로 이름 조회 (자주 간 곳부터)
+  useEffect(() => {
+    if (!isKakaoLoaded || explorationMap.cells.length === 0) return
+
+    const controller = new AbortController()
+    const cells = [...explorationMap.cells].sort((a, b) => b.visits - a.visits)
+    const toNameMap = (names: (string | null)[]) =>
+      new Map(cells.map((cell, index) => [cell.key, names[index] ?? null]))
+
+    setIsResolvingStreets(true)
+    resolveStreetNames(cells.map((cell) => cell.center), {
+      signal: controller.signal,
+      onProgress: (names) => setStreetNames(toNameMap(names)),
+    })
+      .then((names) => {
+        if (!controller.signal.aborted) setStreetNames(toNameMap(names))
+      })
+      .catch((error) => console.error('도로명 조회 실패:', error))
+      .finally(() => {
+        if (!controller.signal.aborted) setIsResolvingStreets(false)
+      })
+
+    return () => controller.abort()
+  }, [isKakaoLoaded, explorationMap])
+
+  const uniqueStreets = countUniqueStreets(Array.from(streetNames.values()))
+  const unresolvedCount = explorationMap.cells.filter((cell) => streetNames.get(cell.key) == null).length
+  const resolvedCount = explorationMap.cells.length - unresolvedCount
+
+  const getSegmentName = (segment: ExploredSegment, index: number) => {
+    const names = segment.key.split('|').map((key) => streetNames.get(key)).filter(Boolean)
+    return names[0] || `구간 ${index + 1}`
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-6">
+      <div className="flex items-center gap-2 mb-6">
+        <Link to="/walks" className="text-gray-500 hover:text-gray-700">
+          <ChevronLeft size={24} />
+        </Link>
+        <h2 className="text-2xl font-bold">탐험 지도</h2>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="animate-spin text-primary" size={48} />
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+      ) : !center ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+          위치가 기록된 산책이 아직 없습니다. 산책을 다녀오면 지나간 곳이 여기에 칠해져요.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatCard label="탐험한 면적" value={`${stats.area.toFixed(2)}km²`} />
+            <StatCard label="이번 달 새로 간 곳" value={`${stats.newThisMonth}칸`} />
+            <StatCard
+              label="지나간 도로"
+              value={`${uniqueStreets}곳`}
+              note={
+                isResolvingStreets
+                  ? `도로명 확인 중 (${resolvedCount}/${explorationMap.cells.length})`
+                  : unresolvedCount > 0 ? `${resolvedCount}/${explorationMap.cells.length}칸 확인됨` : undefined
+              }
+            />
+            <StatCard label="산책" value={`${walks.length}회`} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-4 space-y-3">
+            <div className="flex gap-2">
+              <ModeButton active={mode === 'heat'} onClick={() => setMode('heat')}>
+                <Flame size={16} />
+                자주 간 곳
+              </ModeButton>
+              <ModeButton active={mode === 'new'} onClick={() => setMode('new')}>
+                <Sparkles size={16} />
+                이번 달 새로 간 곳
+              </ModeButton>
+            </div>
+
+            <div className="rounded-lg overflow-hidden">
+              <KakaoMap
+                centerLat={center.lat}
+                centerLng={center.lng}
+                level={5}
+                height="450px"
+                showHazards={false}
+                draggableLocationMarker={false}
+                coverageCells={coverageCells}
+                path={segmentPath}
+                pathColor="#7c3aed"
+              />
+            </div>
+
+            {mode === 'heat' ? (
+              <div className="flex items-center gap-3 text-xs text-gray-600">
+                <LegendItem color={getHeatColor(1)} label="1회" />
+                <LegendItem color={getHeatColor(2)} label="2~3회" />
+                <LegendItem color={getHeatColor(4)} label="4~7회" />
+                <LegendItem color={getHeatColor(8)} label="8회 이상" />
+              </div>
+            ) : (
+              <div className="flex items-center gap-3 text-xs text-gray-600">
+                <LegendItem color="#22c55e" label="이번 달 처음" />
+                <LegendItem color="#d1d5db" label="예전에 가 본 곳" />
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-lg font-bold mb-4">가장 많이 걸은 구간</h3>
+            {topSegments.length > 0 ? (
+              <div className="space-y-2">
+                {topSegments.map((segment, index) => (
+                  <button
+                    key={segment.key}
+                    type="button"
+                    onClick={() => setSelectedSegment(selectedSegment?.key === segment.key ? null : segment)}
+                    className={`w-full flex items-center justify-between px-4 py-3 rounded-lg text-left transition-colors ${
+                      selectedSegment?.key === segment.key ? 'bg-purple-50 border border-purple-300' : 'bg-gray-50 hover:bg-gray-100'
+                    }`}
+                  >
+                    <span className="font-semibold">
+                      {index + 1}. {getSegmentName(segment, index)}
+                    </span>
+                    <span className="text-sm text-gray-600">{segment.visits}회</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-500 text-center py-4">아직 구간 기록이 없습니다.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface StatCardProps {
+  label: string
+  value: string
+  note?: string
+}
+
+function StatCard({ label, value, note }: StatCardProps) {
+  return (
+    <div className="bg-white rounded-lg shadow p-4 text-center">
+      <p className="text-2xl font-bold text-primary">{value}</p>
+      <p className="text-sm text-gray-600">{label}</p>
+      {note && <p className="text-xs text-gray-400 mt-1">{note}</p>}
+    </div>
+  )
+}
+
+interface ModeButtonProps {
+  active: boolean
+  onClick: () => void
+  children: React.ReactNode
+}
+
+function ModeButton({ active, onClick, children }: ModeButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-semibold transition-colors ${
+        active ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+      }`}
+    >
+      {children}
+    </button>
+  )
+}
+
+function LegendItem({ color, label }: { color: string; label: string }) {
+  return (
+    <span className="flex items-center gap-1">
+      <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: color }} />
+      {label}
+    </span>
+  )
+}
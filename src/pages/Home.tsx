@@ -7,6 +7,7 @@ export default function Home() {
   const [todayStats, setTodayStats] = useState<{
     time: number
     distance: number
+    steps: number
     sessions: number
   } | null>(null)
   const [isLoading, setIsLoading] = useState(true)
@@ -26,6 +27,8 @@ export default function Home() {
         setTodayStats({
           time: data.totalDuration || 0,
           distance: data.totalDistance || 0,
+          // 산책마다 저장한 걸음 수의 합 (산책 화면/기록과 같은 값)
+          steps: data.totalSteps || 0,
           sessions: data.totalSessions || 0,
         })
       }
@@ -52,11 +55,6 @@ export default function Home() {
     return `${(meters / 1000).toFixed(1)}km`
   }
 
-  // 걸음 수 추정 (거리 기반)
-  const estimateSteps = (meters: number) => {
-    return Math.round(meters * 1.3).toLocaleString()
-  }
-
   return (
     <div className="max-w-7xl mx-auto px-4 py-6">
       <section className="mb-8">
@@ -122,7 +120,7 @@ export default function Home() {
               />
               <StatCard
                 label="걸음 수"
-                value={todayStats ? estimateSteps(todayStats.distance) : '0'}
+                value={todayStats ? todayStats.steps.toLocaleString() : '0'}
               />
             </div>
           )}
@@ -0,0 +1,200 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useParams } from 'react-router-dom'
+import { isAxiosError } from 'axios'
+import { Loader2, Radio, Pause, WifiOff } from 'lucide-react'
+import KakaoMap from '../components/KakaoMap'
+import { liveShareApi, type LiveWalkResponse } from '../lib/api'
+import { getLiveMovingSeconds, isLiveWalkStale, LIVE_VIEW_POLL_INTERVAL_MS } from '../lib/liveShare'
+import { formatTime, formatDistance } from '../lib/format'
+
+// 로그인 없이 공유 링크로 진행 중인 산책을 지켜보는 화면
+export default function LiveWalk() {
+  const { token } = useParams<{ token: string }>()
+  const [walk, setWalk] = useState<LiveWalkResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isExpired, setIsExpired] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [now, setNow] = useState(Date.now())
+  // 지도를 다시 만들지 않도록 처음 받은 위치를 중심으로 고정
+  const [initialCenter, setInitialCenter] = useState<{ lat: number; lng: number } | null>(null)
+
+  useEffect(() => {
+    if (!token) return
+
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let cancelled = false
+
+    const loadWalk = async () => {
+      try {
+        const response = await liveShareApi.get(token)
+        if (cancelled) return
+        if (response.success && response.data) {
+          const data = response.data
+          setWalk(data)
+          setError(null)
+          if (data.latitude !== null && data.longitude !== null) {
+            const position = { lat: data.latitude, lng: data.longitude }
+            setInitialCenter((prev) => prev ?? position)
+          }
+          if (!data.isActive) {
+            setIsExpired(true)
+            return
+          }
+        } else {
+          setError(response.message || '산책 정보를 불러오지 못했습니다.')
+        }
+      } catch (error) {
+        if (cancelled) return
+        // 만료되었거나 없는 링크
+        if (isAxiosError(error) && (error.response?.status === 404 || error.response?.status === 410)) {
+          setIsExpired(true)
+          return
+        }
+        console.error('실시간 산책 조회 실패:', error)
+        setError('산책 정보를 불러오지 못했습니다. 잠시 후 다시 시도합니다.')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+      if (!cancelled) {
+        timer = setTimeout(loadWalk, LIVE_VIEW_POLL_INTERVAL_MS)
+      }
+    }
+
+    loadWalk()
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+    }
+  }, [token])
+
+  // 이동 시간 표시 갱신
+  useEffect(() => {
+    if (isExpired) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [isExpired])
+
+  const path = useMemo(
+    () => (walk?.track || []).map((point) => ({ lat: point.latitude, lng: point.longitude })),
+    [walk]
+  )
+  const currentPosition = walk && walk.latitude !== null && walk.longitude !== null
+    ? { lat: walk.latitude, lng: walk.longitude }
+    : null
+  const isStale = walk ? isLiveWalkStale(walk, now) : false
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 py-4">
+          <h1 className="text-2xl font-bold text-primary">🐾 Pawvent</h1>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="animate-spin text-primary" size={48} />
+          </div>
+        ) : isExpired && !walk ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center">
+            <p className="text-lg font-semibold mb-1">산책이 끝났어요</p>
+            <p className="text-sm text-gray-600">공유 링크가 만료되었습니다.</p>
+          </div>
+        ) : walk ? (
+          <div className="bg-white rounded-lg shadow p-6 space-y-6">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <h2 className="text-xl font-bold">
+                  {walk.petNames.join(', ')}
+                  {walk.petNames.length > 0 ? '의 산책' : '산책'}
+                </h2>
+                <p className="text-sm text-gray-600 mt-1">
+                  {walk.ownerNickname && `${walk.ownerNickname}님과 · `}
+                  {new Date(walk.startTime).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })} 출발
+                </p>
+              </div>
+              <LiveStatusBadge isExpired={isExpired} isPaused={walk.isPaused} isStale={isStale} />
+            </div>
+
+            {initialCenter ? (
+              <div className="rounded-lg overflow-hidden">
+                <KakaoMap
+                  centerLat={initialCenter.lat}
+                  centerLng={initialCenter.lng}
+                  level={4}
+                  height="400px"
+                  showHazards={false}
+                  draggableLocationMarker={false}
+                  path={path}
+                  replayPosition={currentPosition}
+                  followReplay
+                />
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-6 bg-gray-50 rounded-lg">
+                위치를 기다리는 중입니다...
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-4 text-center">
+              <div>
+                <p className="text-3xl font-bold text-primary">{formatTime(getLiveMovingSeconds(walk, now))}</p>
+                <p className="text-sm text-gray-600">이동 시간</p>
+              </div>
+              <div>
+                <p className="text-3xl font-bold text-primary">{formatDistance(Math.round(walk.distance))}</p>
+                <p className="text-sm text-gray-600">거리</p>
+              </div>
+            </div>
+
+            {walk.updatedAt && (
+              <p className="text-xs text-gray-500 text-center">
+                마지막 위치 {new Date(walk.updatedAt).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+              </p>
+            )}
+            {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+          </div>
+        ) : (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            {error || '산책 정보를 불러오지 못했습니다.'}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
+
+interface LiveStatusBadgeProps {
+  isExpired: boolean
+  isPaused: boolean
+  isStale: boolean
+}
+
+function LiveStatusBadge({ isExpired, isPaused, isStale }: LiveStatusBadgeProps) {
+  if (isExpired) {
+    return <span className="px-3 py-1 bg-gray-100 text-gray-600 rounded-full text-sm font-semibold flex-shrink-0">산책 종료</span>
+  }
+  if (isStale) {
+    return (
+      <span className="px-3 py-1 bg-yellow-50 text-yellow-700 rounded-full text-sm font-semibold flex items-center gap-1 flex-shrink-0">
+        <WifiOff size={14} />
+        연결 확인 중
+      </span>
+    )
+  }
+  if (isPaused) {
+    return (
+      <span className="px-3 py-1 bg-yellow-50 text-yellow-700 rounded-full text-sm font-semibold flex items-center gap-1 flex-shrink-0">
+        <Pause size={14} />
+        잠시 쉬는 중
+      </span>
+    )
+  }
+  return (
+    <span className="px-3 py-1 bg-green-50 text-green-700 rounded-full text-sm font-semibold flex items-center gap-1 flex-shrink-0">
+      <Radio size={14} className="animate-pulse" />
+      산책 중
+    </span>
+  )
+}
@@ -1,16 +1,41 @@
 import { useState, useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useLocation } from 'react-router-dom'
 import { Settings, Award, Heart, Loader2, X, Plus, Edit, Upload } from 'lucide-react'
-import { userApi, UserResponse, petApi, PetResponse, PetCreateRequest, PetUpdateRequest, fileApi } from '../lib/api'
+import { userApi, UserResponse, petApi, PetResponse, PetCreateRequest, PetUpdateRequest, fileApi, HazardCategory } from '../lib/api'
+import { userSettings } from '../lib/userSettings'
+import { HAZARD_CATEGORIES } from '../lib/hazards'
+import { HAZARD_ALERT_RADIUS_OPTIONS } from '../lib/hazardAlerts'
+import {
+  VOICE_EVENT_TYPES,
+  VOICE_EVENT_LABELS,
+  VOICE_LANGUAGE_LABELS,
+  VOICE_SPLIT_OPTIONS,
+  getVoiceSplitLabel,
+  getSplitAnnouncement,
+  isSpeechSupported,
+  speak,
+  watchVoices,
+  type VoiceEventType,
+  type VoiceLanguage,
+} from '../lib/voiceGuide'
+
+interface ProfileLocationState {
+  // 다른 화면(예: 산책 시작)에서 반려동물 등록을 요청한 경우
+  openAddPet?: boolean
+  returnTo?: string
+}
 
 export default function Profile() {
   const navigate = useNavigate()
+  const location = useLocation()
+  const locationState = location.state as ProfileLocationState | null
   const [user, setUser] = useState<UserResponse | null>(null)
   const [pets, setPets] = useState<PetResponse[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [showAddPetModal, setShowAddPetModal] = useState(false)
+  const [showAddPetModal, setShowAddPetModal] = useState(!!locationState?.openAddPet)
   const [editingPet, setEditingPet] = useState<PetResponse | null>(null)
+  const [showSettingsModal, setShowSettingsModal] = useState(false)
 
   useEffect(() => {
     const loadUserProfile = async () => {
@@ -113,7 +138,10 @@ export default function Profile() {
           <div className="flex-1">
             <h3 className="text-xl font-bold mb-1">{user.nickname || '사용자'}</h3>
           </div>
-          <button className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+          <button
+            onClick={() => setShowSettingsModal(true)}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
             <Settings size={24} className="text-gray-600" />
           </button>
         </div>
@@ -178,6 +206,10 @@ export default function Profile() {
           onSuccess={async (newPet) => {
             setPets([...pets, newPet])
             setShowAddPetModal(false)
+            // 등록을 요청한 화면으로 돌아가기
+            if (locationState?.returnTo) {
+              navigate(locationState.returnTo)
+            }
           }}
         />
       )}
@@ -194,6 +226,11 @@ export default function Profile() {
         />
       )}
 
+      {/* 설정 모달 */}
+      {showSettingsModal && (
+        <SettingsModal onClose={() => setShowSettingsModal(false)} />
+      )}
+
       <div className="bg-white rounded-lg shadow p-6">
         <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
           <Award className="text-yellow-500" size={20} />
@@ -288,6 +325,220 @@ function BadgeItem({ name }: BadgeItemProps) {
   )
 }
 
+interface SettingsModalProps {
+  onClose: () => void
+}
+
+function SettingsModal({ onClose }: SettingsModalProps) {
+  const [ownerWeight, setOwnerWeight] = useState(() => userSettings.load().ownerWeight?.toString() ?? '')
+  const [hazardAlertRadius, setHazardAlertRadius] = useState(() => userSettings.load().hazardAlertRadius)
+  const [hazardAlertCategories, setHazardAlertCategories] = useState<HazardCategory[]>(
+    () => userSettings.load().hazardAlertCategories
+  )
+  const [voiceEnabled, setVoiceEnabled] = useState(() => userSettings.load().voiceEnabled)
+  const [voiceLanguage, setVoiceLanguage] = useState<VoiceLanguage>(() => userSettings.load().voiceLanguage)
+  const [voiceName, setVoiceName] = useState<string | null>(() => userSettings.load().voiceName)
+  const [voiceEvents, setVoiceEvents] = useState<VoiceEventType[]>(() => userSettings.load().voiceEvents)
+  const [voiceSplit, setVoiceSplit] = useState(() => userSettings.load().voiceSplit)
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  // 선택한 언어로 읽을 수 있는 음성 목록
+  useEffect(() => watchVoices(voiceLanguage, setVoices), [voiceLanguage])
+
+  const toggleVoiceEvent = (event: VoiceEventType) => {
+    setVoiceEvents((prev) => (prev.includes(event) ? prev.filter((item) => item !== event) : [...prev, event]))
+  }
+
+  const changeVoiceLanguage = (language: VoiceLanguage) => {
+    setVoiceLanguage(language)
+    setVoiceName(null)
+  }
+
+  const toggleHazardAlertCategory = (category: HazardCategory) => {
+    setHazardAlertCategories((prev) =>
+      prev.includes(category) ? prev.filter((item) => item !== category) : [...prev, category]
+    )
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const weight = ownerWeight.trim() ? parseFloat(ownerWeight) : null
+    if (weight !== null && (isNaN(weight) || weight < 20 || weight > 300)) {
+      setError('몸무게는 20~300kg 사이로 입력해주세요.')
+      return
+    }
+    userSettings.save({
+      ownerWeight: weight,
+      hazardAlertRadius,
+      hazardAlertCategories,
+      voiceEnabled,
+      voiceLanguage,
+      voiceName,
+      voiceEvents,
+      voiceSplit,
+    })
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b p-4 flex items-center justify-between">
+          <h3 className="text-xl font-bold">설정</h3>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">내 몸무게 (kg)</label>
+            <input
+              type="number"
+              step="0.1"
+              min="20"
+              max="300"
+              value={ownerWeight}
+              onChange={(e) => setOwnerWeight(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              placeholder="예: 65"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              산책 중 내 소모 칼로리를 계산하는 데만 사용되며 이 기기에만 저장됩니다.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">위험 요소 접근 알림</label>
+            <p className="text-xs text-gray-500 mb-2">
+              산책 중 선택한 종류의 신고 지점에 가까워지면 진동과 알림으로 알려드려요.
+            </p>
+            <div className="grid grid-cols-2 gap-2 mb-3">
+              {HAZARD_CATEGORIES.map((category) => (
+                <label key={category.value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={hazardAlertCategories.includes(category.value)}
+                    onChange={() => toggleHazardAlertCategory(category.value)}
+                    className="rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                  {category.label}
+                </label>
+              ))}
+            </div>
+            <select
+              value={hazardAlertRadius}
+              onChange={(e) => setHazardAlertRadius(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {HAZARD_ALERT_RADIUS_OPTIONS.map((meters) => (
+                <option key={meters} value={meters}>{meters}m 이내에서 알림</option>
+              ))}
+            </select>
+          </div>
+
+          {isSpeechSupported() && (
+            <div className="space-y-2">
+              <label className="flex items-center justify-between text-sm font-medium text-gray-700">
+                산책 음성 안내
+                <input
+                  type="checkbox"
+                  checked={voiceEnabled}
+                  onChange={(e) => setVoiceEnabled(e.target.checked)}
+                  className="rounded border-gray-300 text-primary focus:ring-primary"
+                />
+              </label>
+              <div className={`space-y-2 ${voiceEnabled ? '' : 'opacity-50 pointer-events-none'}`}>
+                <div className="grid grid-cols-2 gap-2">
+                  <select
+                    value={voiceLanguage}
+                    onChange={(e) => changeVoiceLanguage(e.target.value as VoiceLanguage)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    {(Object.keys(VOICE_LANGUAGE_LABELS) as VoiceLanguage[]).map((language) => (
+                      <option key={language} value={language}>{VOICE_LANGUAGE_LABELS[language]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={voiceName ?? ''}
+                    onChange={(e) => setVoiceName(e.target.value || null)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    <option value="">기본 음성</option>
+                    {voices.map((voice) => (
+                      <option key={voice.name} value={voice.name}>{voice.name}</option>
+                    ))}
+                  </select>
+                </div>
+                {VOICE_EVENT_TYPES.map((event) => (
+                  <label key={event} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={voiceEvents.includes(event)}
+                      onChange={() => toggleVoiceEvent(event)}
+                      className="rounded border-gray-300 text-primary focus:ring-primary"
+                    />
+                    {VOICE_EVENT_LABELS[event]}
+                  </label>
+                ))}
+                <div className="flex gap-2">
+                  <select
+                    value={`${voiceSplit.unit}-${voiceSplit.interval}`}
+                    onChange={(e) => {
+                      const split = VOICE_SPLIT_OPTIONS.find((option) => `${option.unit}-${option.interval}` === e.target.value)
+                      if (split) setVoiceSplit(split)
+                    }}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    {VOICE_SPLIT_OPTIONS.map((option) => (
+                      <option key={`${option.unit}-${option.interval}`} value={`${option.unit}-${option.interval}`}>
+                        구간 기록 {getVoiceSplitLabel(option)}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => speak(getSplitAnnouncement(1000, 900, voiceLanguage), { language: voiceLanguage, voiceName })}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    미리 듣기
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              취소
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors"
+            >
+              저장
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
 interface AddPetModalProps {
   onClose: () => void
   onSuccess: (pet: PetResponse) => void
@@ -0,0 +1,213 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { ArrowLeft, Loader2 } from 'lucide-react'
+import KakaoMap, { type MapEventMarker } from '../components/KakaoMap'
+import SpeedChart from '../components/SpeedChart'
+import TrackExportMenu from '../components/TrackExportMenu'
+import { walkSessionApi, type WalkSessionResponse } from '../lib/api'
+import { computeSpeedSeries } from '../lib/walkStats'
+import { sessionToExportTrack } from '../lib/trackExport'
+import {
+  countWalkEvents,
+  fromWalkEventDtos,
+  WALK_EVENT_TYPES,
+  WALK_EVENT_LABELS,
+  WALK_EVENT_EMOJIS,
+  WALK_EVENT_COLORS,
+} from '../lib/walkEvents'
+import { formatTime, formatDistance, formatPace } from '../lib/format'
+
+export default function WalkDetail() {
+  const { sessionId } = useParams<{ sessionId: string }>()
+  const navigate = useNavigate()
+  const [session, setSession] = useState<WalkSessionResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!sessionId) return
+
+    const loadSession = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+        const response = await walkSessionApi.getMySessions()
+        const found = response.data?.find((item) => item.id === Number(sessionId))
+        if (response.success && found) {
+          setSession(found)
+        } else {
+          setError('산책 기록을 찾을 수 없습니다.')
+        }
+      } catch (error) {
+        console.error('산책 기록 로드 실패:', error)
+        setError('산책 기록을 불러오지 못했습니다.')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadSession()
+  }, [sessionId])
+
+  const trackPoints = useMemo(
+    () => (session?.track || []).map((point) => ({
+      lat: point.latitude,
+      lng: point.longitude,
+      timestamp: new Date(point.recordedAt).getTime(),
+    })),
+    [session]
+  )
+  const events = useMemo(() => fromWalkEventDtos(session?.events || []), [session])
+  const eventMarkers = useMemo<MapEventMarker[]>(
+    () => events.map((event) => ({
+      id: event.id,
+      latitude: event.lat,
+      longitude: event.lng,
+      color: WALK_EVENT_COLORS[event.type],
+      symbol: WALK_EVENT_EMOJIS[event.type],
+      title: `${WALK_EVENT_LABELS[event.type]} · ${new Date(event.timestamp).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })}`,
+      imageUrl: event.imageUrl,
+    })),
+    [events]
+  )
+  const speedSamples = useMemo(() => computeSpeedSeries(trackPoints), [trackPoints])
+
+  if (isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-6">
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="animate-spin text-primary" size={48} />
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !session) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-6">
+        <button onClick={() => navigate('/walks')} className="flex items-center gap-1 text-gray-600 hover:text-gray-900 mb-4">
+          <ArrowLeft size={20} />
+          산책 기록
+        </button>
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          {error || '산책 기록을 찾을 수 없습니다.'}
+        </div>
+      </div>
+    )
+  }
+
+  const startTime = new Date(session.startTime)
+  const endTime = session.endTime ? new Date(session.endTime) : null
+  const eventCounts = countWalkEvents(events)
+  const pace = session.distance && session.duration ? session.duration / (session.distance / 1000) : 0
+  const photos = session.imageUrls || []
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-6">
+      <div className="flex items-center justify-between mb-4">
+        <button onClick={() => navigate(-1)} className="flex items-center gap-1 text-gray-600 hover:text-gray-900">
+          <ArrowLeft size={20} />
+          산책 기록
+        </button>
+        {trackPoints.length >= 2 && <TrackExportMenu getTrack={() => sessionToExportTrack(session)} />}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold">
+            {startTime.toLocaleDateString('ko-KR', { year: 'numeric', month: 'long', day: 'numeric', weekday: 'short' })}
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {startTime.toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })}
+            {endTime && ` ~ ${endTime.toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })}`}
+            {` · ${session.petName}`}
+            {session.routeName && ` · ${session.routeName}`}
+          </p>
+        </div>
+
+        {trackPoints.length > 0 ? (
+          <div className="rounded-lg overflow-hidden">
+            <KakaoMap
+              centerLat={trackPoints[0].lat}
+              centerLng={trackPoints[0].lng}
+              height="360px"
+              showHazards={false}
+              draggableLocationMarker={false}
+              path={trackPoints}
+              fitPath
+              eventMarkers={eventMarkers}
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 text-center py-6 bg-gray-50 rounded-lg">기록된 경로가 없습니다.</p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+          <div>
+            <p className="text-2xl font-bold text-primary">{session.distance ? formatDistance(session.distance) : '-'}</p>
+            <p className="text-sm text-gray-600">거리</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-primary">{session.duration ? formatTime(session.duration) : '-'}</p>
+            <p className="text-sm text-gray-600">이동 시간</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-primary">{formatPace(pace)}</p>
+            <p className="text-sm text-gray-600">평균 페이스</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-primary">{session.stepCount != null ? session.stepCount.toLocaleString() : '-'}</p>
+            <p className="text-sm text-gray-600">걸음 수</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-primary">{session.calories != null ? `${session.calories} kcal` : '-'}</p>
+            <p className="text-sm text-gray-600">칼로리</p>
+            {session.ownerCalories != null && (
+              <p className="text-xs text-gray-500 mt-1">보호자 {session.ownerCalories} kcal</p>
+            )}
+          </div>
+        </div>
+
+        {speedSamples.length > 0 && (
+          <div>
+            <h3 className="font-semibold mb-2">구간별 속도</h3>
+            <SpeedChart samples={speedSamples} />
+          </div>
+        )}
+
+        {events.length > 0 && (
+          <div>
+            <h3 className="font-semibold mb-2">산책 기록</h3>
+            <div className="flex flex-wrap gap-2">
+              {WALK_EVENT_TYPES.filter((type) => eventCounts[type]).map((type) => (
+                <span key={type} className="px-3 py-1 bg-gray-100 rounded-full text-sm text-gray-700">
+                  {WALK_EVENT_EMOJIS[type]} {WALK_EVENT_LABELS[type]} {eventCounts[type]}회
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {photos.length > 0 && (
+          <div>
+            <h3 className="font-semibold mb-2">사진</h3>
+            <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+              {photos.map((url) => (
+                <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                  <img src={url} alt="산책 사진" className="w-full aspect-square object-cover rounded-lg" />
+                </a>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {session.memo && (
+          <div>
+            <h3 className="font-semibold mb-2">메모</h3>
+            <p className="text-gray-700 whitespace-pre-wrap bg-gray-50 rounded-lg p-4">{session.memo}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
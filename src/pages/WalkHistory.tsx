@@ -0,0 +1,222 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { Loader2, ChevronRight, Image as ImageIcon, Map as MapIcon } from 'lucide-react'
+import { walkSessionApi, type WalkSessionResponse } from '../lib/api'
+import {
+  filterWalkSessions,
+  sortWalkSessions,
+  getWalkFilterOptions,
+  WALK_SORT_LABELS,
+  type WalkHistoryFilter,
+  type WalkSortOrder,
+} from '../lib/walkHistory'
+import { formatTime, formatDistance } from '../lib/format'
+
+const SORT_ORDERS = Object.keys(WALK_SORT_LABELS) as WalkSortOrder[]
+
+export default function WalkHistory() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [sessions, setSessions] = useState<WalkSessionResponse[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // 필터/정렬은 주소에 남겨 상세 화면에서 돌아와도 유지
+  const filter: WalkHistoryFilter = {
+    petId: searchParams.get('pet') ? Number(searchParams.get('pet')) : null,
+    routeId: searchParams.get('route') ? Number(searchParams.get('route')) : null,
+    startDate: searchParams.get('from') || '',
+    endDate: searchParams.get('to') || '',
+  }
+  const sortParam = searchParams.get('sort') as WalkSortOrder | null
+  const sortOrder: WalkSortOrder = sortParam && sortParam in WALK_SORT_LABELS ? sortParam : 'newest'
+
+  useEffect(() => {
+    loadSessions()
+  }, [])
+
+  const loadSessions = async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const response = await walkSessionApi.getMySessions()
+      if (response.success && response.data) {
+        setSessions(response.data.filter((session) => session.isCompleted))
+      } else {
+        setError(response.message || '산책 기록을 불러오지 못했습니다.')
+      }
+    } catch (error) {
+      console.error('산책 기록 로드 실패:', error)
+      setError('산책 기록을 불러오지 못했습니다.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const updateParam = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams)
+    if (value) {
+      next.set(key, value)
+    } else {
+      next.delete(key)
+    }
+    setSearchParams(next, { replace: true })
+  }
+
+  const options = useMemo(() => getWalkFilterOptions(sessions), [sessions])
+  const visibleSessions = sortWalkSessions(filterWalkSessions(sessions, filter), sortOrder)
+  const totalDistance = visibleSessions.reduce((sum, session) => sum + (session.distance ?? 0), 0)
+  const hasFilter = filter.petId !== null || filter.routeId !== null || !!filter.startDate || !!filter.endDate
+
+  const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary bg-white'
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold">산책 기록</h2>
+        <Link
+          to="/explored"
+          className="flex items-center gap-1 px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+        >
+          <MapIcon size={16} />
+          탐험 지도
+        </Link>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4 mb-6 grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">반려동물</label>
+          <select
+            value={filter.petId ?? ''}
+            onChange={(e) => updateParam('pet', e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">전체</option>
+            {options.pets.map((pet) => (
+              <option key={pet.id} value={pet.id}>{pet.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">경로</label>
+          <select
+            value={filter.routeId ?? ''}
+            onChange={(e) => updateParam('route', e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">전체</option>
+            {options.routes.map((route) => (
+              <option key={route.id} value={route.id}>{route.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">시작일</label>
+          <input
+            type="date"
+            value={filter.startDate}
+            max={filter.endDate || undefined}
+            onChange={(e) => updateParam('from', e.target.value)}
+            className={selectClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">종료일</label>
+          <input
+            type="date"
+            value={filter.endDate}
+            min={filter.startDate || undefined}
+            onChange={(e) => updateParam('to', e.target.value)}
+            className={selectClassName}
+          />
+        </div>
+        <div className="col-span-2 md:col-span-1">
+          <label className="block text-xs text-gray-600 mb-1">정렬</label>
+          <select
+            value={sortOrder}
+            onChange={(e) => updateParam('sort', e.target.value === 'newest' ? '' : e.target.value)}
+            className={selectClassName}
+          >
+            {SORT_ORDERS.map((order) => (
+              <option key={order} value={order}>{WALK_SORT_LABELS[order]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="animate-spin text-primary" size={48} />
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+      ) : (
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center justify-between mb-4 text-sm text-gray-600">
+            <span>
+              {visibleSessions.length}회 · {formatDistance(Math.round(totalDistance))}
+            </span>
+            {hasFilter && (
+              <button
+                onClick={() => setSearchParams(sortOrder === 'newest' ? {} : { sort: sortOrder }, { replace: true })}
+                className="text-primary hover:underline"
+              >
+                필터 초기화
+              </button>
+            )}
+          </div>
+
+          {visibleSessions.length > 0 ? (
+            <div className="space-y-3">
+              {visibleSessions.map((session) => (
+                <WalkHistoryItem key={session.id} session={session} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 text-center py-4">
+              {hasFilter ? '조건에 맞는 산책 기록이 없습니다.' : '산책 기록이 없습니다.'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function WalkHistoryItem({ session }: { session: WalkSessionResponse }) {
+  const startTime = new Date(session.startTime)
+  const photoCount = session.imageUrls?.length ?? 0
+
+  return (
+    <Link
+      to={`/walks/${session.id}`}
+      className="flex items-center justify-between gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+    >
+      <div className="min-w-0">
+        <p className="font-semibold">
+          {startTime.toLocaleDateString('ko-KR', { month: 'long', day: 'numeric', weekday: 'short' })}
+          <span className="text-sm font-normal text-gray-500 ml-2">
+            {startTime.toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })}
+          </span>
+        </p>
+        <p className="text-sm text-gray-600 truncate">
+          {session.petName}
+          {session.routeName && ` · ${session.routeName}`}
+          {session.duration ? ` · ${formatTime(session.duration)}` : ''}
+          {session.stepCount != null && ` · ${session.stepCount.toLocaleString()}걸음`}
+        </p>
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        {photoCount > 0 && (
+          <span className="flex items-center gap-1 text-xs text-gray-500">
+            <ImageIcon size={14} />
+            {photoCount}
+          </span>
+        )}
+        <p className="text-lg font-bold text-primary">
+          {session.distance ? formatDistance(session.distance) : '-'}
+        </p>
+        <ChevronRight className="text-gray-400" size={20} />
+      </div>
+    </Link>
+  )
+}
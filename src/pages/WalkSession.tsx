@@ -1,33 +1,157 @@
-import { useState, useEffect, useRef } from 'react'
-import { Play, Pause, Square, Loader2, AlertTriangle } from 'lucide-react'
-import KakaoMap, { type SpotData } from '../components/KakaoMap'
+import { useState, useEffect, useRef, useMemo, type ChangeEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Play, Pause, Square, Loader2, AlertTriangle, History, Trash2, Timer, Upload, Navigation, Flag, PenLine, Pencil, Radio, Share2, X, Volume2, VolumeX } from 'lucide-react'
+import KakaoMap, { type SpotData, type MapEventMarker, type KakaoMapHandle } from '../components/KakaoMap'
 import HazardReportModal from '../components/HazardReportModal'
 import SpotDetailModal from '../components/SpotDetailModal'
 import HazardDetailModal from '../components/HazardDetailModal'
-import { walkSessionApi, walkRouteApi, type WalkRoute } from '../lib/api'
+import PetPicker from '../components/PetPicker'
+import SaveRouteModal from '../components/SaveRouteModal'
+import RouteImportModal from '../components/RouteImportModal'
+import RouteEditorModal from '../components/RouteEditorModal'
+import TrackExportMenu from '../components/TrackExportMenu'
+import HazardLegend from '../components/HazardLegend'
+import LocationSimulatorPanel from '../components/LocationSimulatorPanel'
+import WalkSummary, { type WalkSummaryData } from '../components/WalkSummary'
+import {
+  walkSessionApi,
+  walkRouteApi,
+  petApi,
+  fileApi,
+  liveShareApi,
+  getApiErrorMessage,
+  type WalkRoute,
+  type WalkSessionResponse,
+  type WalkCompleteDetails,
+  type WalkEventType,
+  type PetResponse,
+  type HazardResponse,
+  type HazardCategory,
+} from '../lib/api'
+import type { LatLngPoint, TrackPoint } from '../lib/geo'
+import { createTrackProcessor } from '../lib/trackProcessing'
+import { locationProvider } from '../lib/locationProvider'
+import { createRouteGuide, DEFAULT_ROUTE_GUIDE_OPTIONS, OFF_ROUTE_DISTANCE_OPTIONS, type RouteGuide, type RouteProgress } from '../lib/routeGuidance'
+import { createAutoPauseDetector, AUTO_PAUSE_PRESETS, AUTO_PAUSE_MODE_LABELS, type AutoPauseDetector, type AutoPauseEvent } from '../lib/autoPause'
+import { userSettings, type AutoPauseMode } from '../lib/userSettings'
+import { routeToExportTrack, type ExportTrack } from '../lib/trackExport'
+import { walkStorage, type PersistedWalk } from '../lib/walkStorage'
+import { formatTime, formatDistance } from '../lib/format'
+import { estimatePetCalories, estimateOwnerCalories, type CaloriePetProfile } from '../lib/calories'
+import { createHazardGeofence, type HazardAlert, type HazardGeofence } from '../lib/hazardAlerts'
+import { getHazardCategoryLabel } from '../lib/hazards'
+import {
+  announce,
+  cancelSpeech,
+  createSplitTracker,
+  getSplitAnnouncement,
+  getHazardAnnouncement,
+  getRouteFinishedAnnouncement,
+  isSpeechSupported,
+} from '../lib/voiceGuide'
+import { getLiveShareUrl, shareLiveLink, LIVE_SHARE_PUBLISH_INTERVAL_MS } from '../lib/liveShare'
+import { estimateStepsFromDistance, requestMotionPermission, watchSteps, type MotionPermission } from '../lib/stepCounter'
+import {
+  createWalkEvent,
+  countWalkEvents,
+  toWalkEventDtos,
+  WALK_EVENT_TYPES,
+  WALK_EVENT_LABELS,
+  WALK_EVENT_EMOJIS,
+  WALK_EVENT_COLORS,
+  type WalkEvent,
+} from '../lib/walkEvents'
+import {
+  createTimeline,
+  pauseTimeline,
+  resumeTimeline,
+  closeTimeline,
+  isTimelinePaused,
+  getPauseReason,
+  getTimelineStart,
+  summarizeTimeline,
+  type PauseReason,
+  type WalkTimeline,
+} from '../lib/walkTimeline'
 
-interface Position {
-  lat: number
-  lng: number
-  timestamp: number
+// 경로 저장 제안을 위해 보관하는 완료된 산책 기록
+interface CompletedTrack {
+  positions: TrackPoint[]
+  distance: number
+  duration: number
+  startTime: number
+}
+
+// 위험 요소 접근 알림 표시 시간
+const HAZARD_ALERT_DISPLAY_MS = 20000
+
+// 반려동물 정보를 찾지 못한 세션의 칼로리 계산용 기본값
+const UNKNOWN_PET: CaloriePetProfile = { species: null, breed: null, weight: null, birthDate: null }
+
+// 요약 화면에서 저장을 기다리는 산책
+interface FinishedWalk {
+  sessionIds: number[]
+  summary: WalkSummaryData
+}
+
+interface DanglingWalk {
+  // 함께 시작한 세션 묶음 (첫 번째가 대표 세션)
+  sessions: WalkSessionResponse[]
+  // 이 기기에 저장된 진행 기록 (다른 기기에서 시작한 세션이면 null)
+  saved: PersistedWalk | null
 }
 
 export default function WalkSession() {
+  const navigate = useNavigate()
   const [isWalking, setIsWalking] = useState(false)
-  const [isPaused, setIsPaused] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
-  const [currentSessionId, setCurrentSessionId] = useState<number | null>(null)
-  const [startTime, setStartTime] = useState<Date | null>(null)
-  const [elapsedTime, setElapsedTime] = useState(0)
+  // 함께 산책 중인 반려동물별 세션 ID (첫 번째가 대표 세션)
+  const [currentSessionIds, setCurrentSessionIds] = useState<number[]>([])
+  // 활동/일시정지 구간 기록 (이동 시간과 정지 시간을 분리해 계산)
+  const [timeline, setTimeline] = useState<WalkTimeline>([])
+  const [clockNow, setClockNow] = useState(Date.now())
+  const [autoPauseMode, setAutoPauseMode] = useState<AutoPauseMode>(() => userSettings.load().autoPauseMode)
   const [distance, setDistance] = useState(0)
   const [stepCount, setStepCount] = useState(0)
+  // 산책 중 기록한 이벤트 (산책 종료 후에도 지도에 표시)
+  const [walkEvents, setWalkEvents] = useState<WalkEvent[]>([])
+  const [isUploadingPhoto, setIsUploadingPhoto] = useState(false)
   const [routes, setRoutes] = useState<WalkRoute[]>([])
+  const [myRoutes, setMyRoutes] = useState<WalkRoute[]>([])
+  const [routeTab, setRouteTab] = useState<'shared' | 'my'>('shared')
   const [selectedRouteId, setSelectedRouteId] = useState<number | null>(null)
+  // 선택한 경로 따라가기 진행 상황
+  const [routeProgress, setRouteProgress] = useState<RouteProgress | null>(null)
+  const [offRouteDistance, setOffRouteDistance] = useState(() => userSettings.load().offRouteDistance)
+  const [ownerWeight] = useState(() => userSettings.load().ownerWeight)
+  // 가족에게 공유 중인 실시간 산책 링크 토큰
+  const [liveShareToken, setLiveShareToken] = useState<string | null>(null)
+  const [isStartingLiveShare, setIsStartingLiveShare] = useState(false)
+  // 지도에서 불러온 주변 위험 요소와 접근 알림
+  const [nearbyHazards, setNearbyHazards] = useState<HazardResponse[]>([])
+  const [hazardMapCategories, setHazardMapCategories] = useState<HazardCategory[]>(() => userSettings.load().hazardMapCategories)
+  const [hazardAlert, setHazardAlert] = useState<HazardAlert | null>(null)
+  const [voiceEnabled, setVoiceEnabled] = useState(() => userSettings.load().voiceEnabled)
+  
+  // 반려동물 선택 관련
+  const [pets, setPets] = useState<PetResponse[]>([])
+  const [selectedPetIds, setSelectedPetIds] = useState<number[]>([])
+  const [isPetsLoaded, setIsPetsLoaded] = useState(false)
+  
+  // 완료되지 않은 채 남아 있는 산책 세션 (복구 대상)
+  const [danglingWalk, setDanglingWalk] = useState<DanglingWalk | null>(null)
+  
+  // 방금 완료한 산책 경로 (경로 저장 제안용)
+  const [completedTrack, setCompletedTrack] = useState<CompletedTrack | null>(null)
+  const [finishedWalk, setFinishedWalk] = useState<FinishedWalk | null>(null)
+  // GPX/GeoJSON 경로 가져오기 모달
+  const [isRouteImportOpen, setIsRouteImportOpen] = useState(false)
+  // 경로 그리기/수정 모달 (수정할 경로가 없으면 새 경로)
+  const [routeEditor, setRouteEditor] = useState<{ route: WalkRoute | null } | null>(null)
   
   // 위험 요소 등록 관련
   const [enableHazardReport, setEnableHazardReport] = useState(false)
   const [hazardReportLocation, setHazardReportLocation] = useState<{ lat: number; lng: number } | null>(null)
-  const [hazardsRefreshKey, setHazardsRefreshKey] = useState(0)
   
   // 스팟 상세 모달 관련
   const [selectedSpot, setSelectedSpot] = useState<SpotData | null>(null)
@@ -43,61 +167,241 @@ export default function WalkSession() {
   
   // GPS 위치 추적 관련
   const watchIdRef = useRef<number | null>(null)
-  const positionsRef = useRef<Position[]>([])
-  const lastPositionRef = useRef<Position | null>(null)
-
-  // 두 지점 간 거리 계산 (하버사인 공식)
-  const calculateDistance = (pos1: Position, pos2: Position): number => {
-    const R = 6371000 // 지구 반지름 (미터)
-    const dLat = (pos2.lat - pos1.lat) * Math.PI / 180
-    const dLng = (pos2.lng - pos1.lng) * Math.PI / 180
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(pos1.lat * Math.PI / 180) * Math.cos(pos2.lat * Math.PI / 180) *
-      Math.sin(dLng / 2) * Math.sin(dLng / 2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-    return R * c
+  const mapRef = useRef<KakaoMapHandle>(null)
+  const positionsRef = useRef<TrackPoint[]>([])
+  // 정확도/속도 필터링과 스무딩을 거쳐 거리를 누적하는 처리기
+  const trackProcessorRef = useRef(createTrackProcessor())
+  // 멈춰 있는 시간을 감지해 자동 일시정지/재개
+  const autoPauseRef = useRef<AutoPauseDetector | null>(null)
+  // GPS 콜백에서 최신 일시정지 상태를 읽기 위한 ref
+  const isPausedRef = useRef(false)
+  const pauseReasonRef = useRef<PauseReason | null>(null)
+  // 선택한 경로 따라가기 안내
+  const routeGuideRef = useRef<RouteGuide | null>(null)
+  // 이벤트 기록에 사용할 마지막 GPS 위치
+  const lastFixRef = useRef<LatLngPoint | null>(null)
+  const photoInputRef = useRef<HTMLInputElement>(null)
+  // 산책 시작 버튼에서 요청한 동작 센서 권한 (iOS는 사용자 동작 중에만 요청 가능)
+  const motionPermissionRef = useRef<Promise<MotionPermission> | null>(null)
+  // 걸음 센서 값이 들어오면 거리 기반 추정 대신 센서 걸음 수 사용
+  const isStepSensorActiveRef = useRef(false)
+  // 위험 요소 접근 감지 (같은 위험 요소는 산책마다 한 번만 알림)
+  const hazardGeofenceRef = useRef<HazardGeofence | null>(null)
+  // 위치 콜백에서 최신 주변 위험 요소 목록을 읽기 위한 ref
+  const nearbyHazardsRef = useRef<HazardResponse[]>([])
+  // 구간 기록 음성 안내 (산책 중에만 존재)
+  const splitTrackerRef = useRef<ReturnType<typeof createSplitTracker> | null>(null)
+  // 실시간 공유 전송 시 최신 거리/타임라인을 읽기 위한 ref
+  const liveShareSnapshotRef = useRef<{ distance: number; timeline: WalkTimeline }>({ distance: 0, timeline: [] })
+
+  const isPaused = isTimelinePaused(timeline)
+  const pauseReason = getPauseReason(timeline)
+  const walkingPets = pets.filter((pet) => selectedPetIds.includes(pet.id))
+  const startTime = getTimelineStart(timeline)
+  const timelineSummary = summarizeTimeline(timeline, clockNow)
+  const hazardCounts = useMemo(() => {
+    const counts: Partial<Record<HazardCategory, number>> = {}
+    nearbyHazards.forEach((hazard) => {
+      counts[hazard.category] = (counts[hazard.category] ?? 0) + 1
+    })
+    return counts
+  }, [nearbyHazards])
+  const selectedRoute = [...routes, ...myRoutes].find((route) => route.id === selectedRouteId) || null
+  const visibleRoutes = routeTab === 'shared' ? routes : myRoutes
+  const walkEventCounts = countWalkEvents(walkEvents)
+  const livePetCalories = walkingPets.map((pet) => Math.round(estimatePetCalories(pet, distance, timelineSummary.movingSeconds)))
+  const liveOwnerCalories = estimateOwnerCalories(ownerWeight, distance, timelineSummary.movingSeconds)
+  const walkEventMarkers = useMemo<MapEventMarker[]>(
+    () => walkEvents.map((event) => ({
+      id: event.id,
+      latitude: event.lat,
+      longitude: event.lng,
+      color: WALK_EVENT_COLORS[event.type],
+      symbol: WALK_EVENT_EMOJIS[event.type],
+      title: `${WALK_EVENT_LABELS[event.type]} · ${new Date(event.timestamp).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })}`,
+      imageUrl: event.imageUrl,
+    })),
+    [walkEvents]
+  )
+  const selectedRoutePath = useMemo(
+    () => (selectedRoute?.coordinates || []).map((coord) => ({ lat: coord.latitude, lng: coord.longitude })),
+    [selectedRoute]
+  )
+
+  useEffect(() => {
+    isPausedRef.current = isPaused
+    pauseReasonRef.current = pauseReason
+  }, [isPaused, pauseReason])
+
+  useEffect(() => {
+    liveShareSnapshotRef.current = { distance, timeline }
+  }, [distance, timeline])
+
+  useEffect(() => {
+    nearbyHazardsRef.current = nearbyHazards
+  }, [nearbyHazards])
+
+  // 위험 요소 알림은 잠시 보여준 뒤 자동으로 닫음
+  useEffect(() => {
+    if (!hazardAlert) return
+    announce('hazard', (language) =>
+      getHazardAnnouncement(hazardAlert.hazard.category, hazardAlert.distance, language)
+    )
+    const timer = setTimeout(() => setHazardAlert(null), HAZARD_ALERT_DISPLAY_MS)
+    return () => clearTimeout(timer)
+  }, [hazardAlert])
+
+  // 실시간 공유 중이면 주기적으로 현재 위치 전송
+  useEffect(() => {
+    if (!isWalking || !liveShareToken) return
+
+    const publish = () => {
+      const position = lastFixRef.current
+      if (!position) return
+      const snapshot = liveShareSnapshotRef.current
+      const now = Date.now()
+      liveShareApi
+        .publish(liveShareToken, {
+          latitude: position.lat,
+          longitude: position.lng,
+          distance: Math.round(snapshot.distance),
+          movingDuration: summarizeTimeline(snapshot.timeline, now).movingSeconds,
+          isPaused: isTimelinePaused(snapshot.timeline),
+          recordedAt: new Date(now).toISOString(),
+        })
+        .catch((error) => {
+          console.error('실시간 위치 전송 실패:', error)
+        })
+    }
+
+    publish()
+    const interval = setInterval(publish, LIVE_SHARE_PUBLISH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [isWalking, liveShareToken])
+
+  // 자동 일시정지 감도 변경 시 감지기 교체
+  useEffect(() => {
+    autoPauseRef.current = autoPauseMode === 'off'
+      ? null
+      : createAutoPauseDetector(AUTO_PAUSE_PRESETS[autoPauseMode])
+    // 자동 일시정지를 끄면 자동으로 멈춘 상태도 해제
+    if (autoPauseMode === 'off') {
+      setTimeline((prev) => (getPauseReason(prev) === 'auto' ? resumeTimeline(prev, Date.now()) : prev))
+    }
+  }, [autoPauseMode])
+
+  // 산책 중 선택한 경로가 있으면 따라가기 안내 시작
+  useEffect(() => {
+    routeGuideRef.current = isWalking && selectedRoutePath.length >= 2
+      ? createRouteGuide(selectedRoutePath, { ...DEFAULT_ROUTE_GUIDE_OPTIONS, offRouteDistance })
+      : null
+    setRouteProgress(null)
+  }, [isWalking, selectedRoutePath, offRouteDistance])
+
+  // 경로를 벗어나거나 도착하면 진동으로 알림
+  useEffect(() => {
+    if (routeProgress?.isOffRoute) navigator.vibrate?.([200, 100, 200])
+  }, [routeProgress?.isOffRoute])
+
+  useEffect(() => {
+    if (!routeProgress?.isFinished) return
+    navigator.vibrate?.([100, 50, 100, 50, 300])
+    const routeDistance = routeProgress.totalDistance
+    announce('routeFinished', (language) => getRouteFinishedAnnouncement(routeDistance, language))
+  }, [routeProgress?.isFinished, routeProgress?.totalDistance])
+
+  // 일정 거리/시간마다 구간 기록 음성 안내
+  useEffect(() => {
+    if (!isWalking) {
+      splitTrackerRef.current = null
+      return
+    }
+    if (!splitTrackerRef.current) {
+      // 이어서 산책하는 경우 이미 지난 구간은 안내하지 않음
+      splitTrackerRef.current = createSplitTracker(userSettings.load().voiceSplit)
+      splitTrackerRef.current.reset(distance, timelineSummary.movingSeconds)
+      return
+    }
+    if (splitTrackerRef.current.update(distance, timelineSummary.movingSeconds) === null) return
+    const movingSeconds = timelineSummary.movingSeconds
+    announce('split', (language) => getSplitAnnouncement(distance, movingSeconds, language))
+  }, [isWalking, distance, timelineSummary.movingSeconds])
+
+  // 자동 일시정지 감지 결과를 타임라인에 반영
+  const applyAutoPauseEvent = (event: AutoPauseEvent | null) => {
+    if (!event) return
+    setTimeline((prev) => {
+      if (event.type === 'pause') {
+        return isTimelinePaused(prev) ? prev : pauseTimeline(prev, event.at, 'auto')
+      }
+      // 사용자가 직접 일시정지한 경우는 자동으로 재개하지 않음
+      return getPauseReason(prev) === 'auto' ? resumeTimeline(prev, event.at) : prev
+    })
   }
 
-  // GPS 위치 추적 시작/중지
+  // GPS 위치 추적 시작/중지 (자동 재개 감지를 위해 일시정지 중에도 추적)
   useEffect(() => {
-    if (!isWalking || isPaused) {
+    if (!isWalking) {
       // 위치 추적 중지
       if (watchIdRef.current !== null) {
-        navigator.geolocation.clearWatch(watchIdRef.current)
+        locationProvider.clearWatch(watchIdRef.current)
         watchIdRef.current = null
       }
       return
     }
 
-    if (!navigator.geolocation) {
+    if (!locationProvider.isAvailable()) {
       console.warn('GPS가 지원되지 않습니다.')
       return
     }
 
     // 위치 추적 시작
-    watchIdRef.current = navigator.geolocation.watchPosition(
+    trackProcessorRef.current.reset()
+    autoPauseRef.current?.reset()
+    // 프로필에서 바꾼 알림 설정을 산책마다 새로 반영
+    const { hazardAlertRadius, hazardAlertCategories } = userSettings.load()
+    hazardGeofenceRef.current = createHazardGeofence({ radius: hazardAlertRadius, categories: hazardAlertCategories })
+    watchIdRef.current = locationProvider.watchPosition(
       (position) => {
-        const { latitude, longitude } = position.coords
-        const timestamp = Date.now()
-        const newPosition: Position = { lat: latitude, lng: longitude, timestamp }
-
-        if (lastPositionRef.current) {
-          // 이전 위치와의 거리 계산
-          const segmentDistance = calculateDistance(lastPositionRef.current, newPosition)
-          // 유효한 이동만 기록 (너무 짧은 거리는 노이즈로 간주)
-          if (segmentDistance > 5) {
-            positionsRef.current.push(newPosition)
-            setDistance(prev => Math.round(prev + segmentDistance))
-            // 걸음 수 추정 (1걸음 약 0.7m)
-            setStepCount(prev => Math.round(prev + segmentDistance / 0.7))
+        const { latitude, longitude, accuracy } = position.coords
+        lastFixRef.current = { lat: latitude, lng: longitude }
+        const result = trackProcessorRef.current.push({
+          lat: latitude,
+          lng: longitude,
+          timestamp: Date.now(),
+          accuracy,
+        })
+        const autoPauseEvent = result.point && autoPauseRef.current ? autoPauseRef.current.update(result.point) : null
+        applyAutoPauseEvent(autoPauseEvent)
+        if (result.point && routeGuideRef.current) {
+          setRouteProgress(routeGuideRef.current.update(result.point))
+        }
+        if (result.point && hazardGeofenceRef.current) {
+          const [nearest] = hazardGeofenceRef.current.update(result.point, nearbyHazardsRef.current)
+          if (nearest) {
+            setHazardAlert(nearest)
+            navigator.vibrate?.([300, 100, 300, 100, 300])
           }
-        } else {
-          // 첫 위치 기록
-          positionsRef.current.push(newPosition)
         }
+        const addDistance = (segmentDistance: number) => {
+          if (segmentDistance <= 0) return
+          setDistance(prev => prev + segmentDistance)
+          if (!isStepSensorActiveRef.current) {
+            // 짧은 구간마다 반올림하면 계속 버려지므로 소수점까지 누적하고 표시/저장할 때만 반올림
+            setStepCount(prev => prev + estimateStepsFromDistance(segmentDistance))
+          }
+        }
+        // 자동 재개한 위치는 아직 일시정지 상태에서 들어온 것이므로 멈춘 지점부터 걸은 거리를 직접 반영
+        if (autoPauseEvent?.type === 'resume' && pauseReasonRef.current === 'auto' && result.point) {
+          positionsRef.current.push(result.point)
+          addDistance(autoPauseEvent.distance ?? 0)
+          return
+        }
+        // 일시정지 중 이동한 거리는 기록하지 않음
+        if (isPausedRef.current || !result.recorded || !result.point) return
 
-        lastPositionRef.current = newPosition
+        positionsRef.current.push(result.point)
+        addDistance(result.segmentDistance)
       },
       (error) => {
         console.error('GPS 위치 추적 오류:', error)
@@ -111,38 +415,225 @@ export default function WalkSession() {
 
     return () => {
       if (watchIdRef.current !== null) {
-        navigator.geolocation.clearWatch(watchIdRef.current)
+        locationProvider.clearWatch(watchIdRef.current)
         watchIdRef.current = null
       }
     }
-  }, [isWalking, isPaused])
+  }, [isWalking])
 
-  // 타이머 업데이트
+  // 동작 센서로 걸음 수 측정 (센서가 없거나 권한이 없으면 거리 기반 추정 유지)
   useEffect(() => {
-    let interval: NodeJS.Timeout | null = null
-    if (isWalking && !isPaused && startTime) {
-      interval = setInterval(() => {
-        const elapsed = Math.floor((Date.now() - startTime.getTime()) / 1000)
-        setElapsedTime(elapsed)
-      }, 1000)
-    }
+    if (!isWalking) return
+
+    let cancelled = false
+    let stopWatching: (() => void) | null = null
+    isStepSensorActiveRef.current = false
+    const permission = motionPermissionRef.current ?? requestMotionPermission()
+    motionPermissionRef.current = null
+
+    permission.then((result) => {
+      if (cancelled) return
+      if (result !== 'granted') {
+        console.warn('동작 센서를 사용할 수 없어 거리로 걸음 수를 추정합니다:', result)
+        return
+      }
+      stopWatching = watchSteps(
+        (steps) => {
+          if (!isPausedRef.current) setStepCount(prev => prev + steps)
+        },
+        () => {
+          isStepSensorActiveRef.current = true
+        }
+      )
+    })
+
     return () => {
-      if (interval) clearInterval(interval)
+      cancelled = true
+      stopWatching?.()
+      isStepSensorActiveRef.current = false
     }
-  }, [isWalking, isPaused, startTime])
+  }, [isWalking])
+
+  // 타이머 업데이트 (일시정지 중에도 정지 시간 표시를 위해 계속 갱신)
+  useEffect(() => {
+    if (!isWalking) return
+    setClockNow(Date.now())
+    const interval = setInterval(() => {
+      const now = Date.now()
+      setClockNow(now)
+      // GPS 갱신이 뜸한 정지 상태도 감지
+      if (autoPauseRef.current) {
+        applyAutoPauseEvent(autoPauseRef.current.tick(now))
+      }
+    }, 1000)
+    return () => clearInterval(interval)
+  }, [isWalking])
 
-  // 산책 경로 로드
+  // 진행 중인 산책을 로컬에 저장 (새로고침/탭 종료 대비)
+  useEffect(() => {
+    if (!isWalking || currentSessionIds.length === 0 || startTime === null) return
+    walkStorage.save({
+      sessionIds: currentSessionIds,
+      startTime,
+      timeline,
+      positions: positionsRef.current,
+      distance,
+      stepCount,
+      events: walkEvents,
+      guidedRouteId: selectedRouteId,
+      liveShareToken,
+    })
+  }, [isWalking, currentSessionIds, startTime, timeline, distance, stepCount, walkEvents, selectedRouteId, liveShareToken])
+
+  // 산책 경로 로드 및 완료되지 않은 세션 확인
   useEffect(() => {
     loadRoutes()
+    loadPets()
+    checkDanglingWalk()
   }, [])
 
+  const loadPets = async () => {
+    try {
+      const response = await petApi.getMyPets()
+      if (response.success && response.data) {
+        const myPets = response.data
+        setPets(myPets)
+        // 마지막으로 함께 산책한 반려동물을 기본 선택 (없으면 첫 번째 반려동물)
+        const lastPetIds = walkStorage.loadLastPetIds().filter((id) => myPets.some((pet) => pet.id === id))
+        setSelectedPetIds(lastPetIds.length > 0 ? lastPetIds : myPets.slice(0, 1).map((pet) => pet.id))
+      }
+    } catch (error) {
+      console.error('반려동물 목록 로드 실패:', error)
+    } finally {
+      setIsPetsLoaded(true)
+    }
+  }
+
+  const goToAddPet = () => {
+    navigate('/profile', { state: { openAddPet: true, returnTo: '/walk' } })
+  }
+
+  const checkDanglingWalk = async () => {
+    const saved = walkStorage.load()
+    try {
+      const response = await walkSessionApi.getActive()
+      const activeSessions = response.success && response.data ? response.data : []
+      if (activeSessions.length === 0) {
+        // 서버에 진행 중인 세션이 없으면 로컬 기록도 의미 없음
+        walkStorage.clear()
+        return
+      }
+      // 이 기기에 저장된 세션 묶음이 있으면 그것을, 없으면 대표 세션과 연결된 세션을 묶음
+      const savedSessions = saved
+        ? activeSessions.filter((session) => saved.sessionIds.includes(session.id))
+        : []
+      if (savedSessions.length > 0) {
+        setDanglingWalk({ sessions: savedSessions, saved })
+        return
+      }
+      const primary = activeSessions.find((session) => !session.linkedSessionId) || activeSessions[0]
+      setDanglingWalk({
+        sessions: [primary, ...activeSessions.filter((session) => session.linkedSessionId === primary.id)],
+        saved: null,
+      })
+    } catch (error) {
+      console.error('진행 중인 산책 조회 실패:', error)
+    }
+  }
+
+  const resumeDanglingWalk = () => {
+    if (!danglingWalk) return
+    motionPermissionRef.current = requestMotionPermission()
+    const { sessions, saved } = danglingWalk
+    const savedTimeline = saved && saved.timeline.length > 0
+      ? saved.timeline
+      : createTimeline(new Date(sessions[0].startTime).getTime())
+
+    positionsRef.current = saved?.positions || []
+    setCurrentSessionIds(sessions.map((session) => session.id))
+    setSelectedPetIds(sessions.map((session) => session.petId))
+    setTimeline(savedTimeline)
+    setDistance(saved?.distance || 0)
+    setStepCount(saved?.stepCount || 0)
+    setWalkEvents(saved?.events || [])
+    lastFixRef.current = null
+    setSelectedRouteId(saved?.guidedRouteId ?? null)
+    setLiveShareToken(saved?.liveShareToken ?? null)
+    setIsWalking(true)
+    setDanglingWalk(null)
+  }
+
+  const changeOffRouteDistance = (meters: number) => {
+    setOffRouteDistance(meters)
+    userSettings.save({ offRouteDistance: meters })
+  }
+
+  const finishDanglingWalk = async () => {
+    if (!danglingWalk) return
+    const { sessions, saved } = danglingWalk
+    try {
+      setIsLoading(true)
+      // 마지막 저장 시각까지만 산책한 것으로 간주
+      const endedAt = saved?.savedAt ?? Date.now()
+      const savedTimeline = saved && saved.timeline.length > 0
+        ? saved.timeline
+        : createTimeline(new Date(sessions[0].startTime).getTime())
+      const finalTimeline = closeTimeline(savedTimeline, endedAt)
+      const summary = summarizeTimeline(finalTimeline, endedAt)
+      const distanceMeters = Math.round(saved?.distance || 0)
+      const durationSeconds = summary.movingSeconds
+      const ownerCalories = estimateOwnerCalories(ownerWeight, distanceMeters, durationSeconds)
+
+      await completeSessions(
+        sessions.map((session) => session.id),
+        distanceMeters,
+        durationSeconds,
+        estimateSessionCalories(sessions.map((session) => session.petId), distanceMeters, durationSeconds),
+        buildCompleteDetails(finalTimeline, endedAt, saved?.positions || [], saved?.events || [], saved?.stepCount || 0, ownerCalories),
+        getPhotoUrls(saved?.events || [])
+      )
+      walkStorage.clear()
+      setDanglingWalk(null)
+      alert(`이전 산책을 종료했습니다.\n거리: ${formatDistance(distanceMeters)}\n시간: ${formatTime(durationSeconds)}`)
+    } catch (error) {
+      console.error('이전 산책 종료 실패:', error)
+      const errorMessage = getApiErrorMessage(error, '산책 완료 처리에 실패했습니다.')
+      alert(`이전 산책 종료 실패: ${errorMessage}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const discardDanglingWalk = async () => {
+    if (!danglingWalk) return
+    if (!confirm('이전 산책 기록을 삭제하시겠습니까?')) return
+    try {
+      setIsLoading(true)
+      await Promise.all(danglingWalk.sessions.map((session) => walkSessionApi.delete(session.id)))
+      walkStorage.clear()
+      setDanglingWalk(null)
+    } catch (error) {
+      console.error('이전 산책 삭제 실패:', error)
+      const errorMessage = getApiErrorMessage(error, '산책 삭제에 실패했습니다.')
+      alert(`이전 산책 삭제 실패: ${errorMessage}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const loadRoutes = async () => {
     try {
       setIsLoading(true)
-      const sharedResponse = await walkRouteApi.getSharedRoutes()
+      const [sharedResponse, myResponse] = await Promise.all([
+        walkRouteApi.getSharedRoutes(),
+        walkRouteApi.getMyRoutes(),
+      ])
       if (sharedResponse.success && sharedResponse.data) {
         setRoutes(sharedResponse.data)
       }
+      if (myResponse.success && myResponse.data) {
+        setMyRoutes(myResponse.data)
+      }
     } catch (error) {
       console.error('산책 경로 로드 실패:', error)
     } finally {
@@ -150,31 +641,117 @@ export default function WalkSession() {
     }
   }
 
+  // 완료 요청 본문에 포함할 타임라인 및 GPS 경로 정보
+  const buildCompleteDetails = (
+    finalTimeline: WalkTimeline,
+    endedAt: number,
+    positions: TrackPoint[],
+    events: WalkEvent[],
+    stepCount: number,
+    ownerCalories: number | null
+  ): WalkCompleteDetails => {
+    const summary = summarizeTimeline(finalTimeline, endedAt)
+    return {
+      movingDuration: summary.movingSeconds,
+      pausedDuration: summary.pausedSeconds,
+      totalDuration: summary.totalSeconds,
+      segments: finalTimeline.map((segment) => ({
+        type: segment.type === 'active' ? 'ACTIVE' : 'PAUSED',
+        ...(segment.type === 'paused' && { pauseReason: segment.reason === 'auto' ? 'AUTO' : 'MANUAL' }),
+        startTime: new Date(segment.start).toISOString(),
+        endTime: new Date(segment.end ?? endedAt).toISOString(),
+      })),
+      track: positions.map((position) => ({
+        latitude: position.lat,
+        longitude: position.lng,
+        recordedAt: new Date(position.timestamp).toISOString(),
+      })),
+      events: toWalkEventDtos(events),
+      stepCount: Math.round(stepCount),
+      ...(ownerCalories !== null && { ownerCalories: Math.round(ownerCalories) }),
+    }
+  }
+
+  // 반려동물별 소모 칼로리 (세션 순서와 같음)
+  const estimateSessionCalories = (petIds: number[], distanceMeters: number, movingSeconds: number) =>
+    petIds.map((petId) => {
+      const pet = pets.find((item) => item.id === petId) ?? UNKNOWN_PET
+      return Math.round(estimatePetCalories(pet, distanceMeters, movingSeconds))
+    })
+
+  // 사진 이벤트의 이미지는 산책 기록 사진으로도 저장
+  const getPhotoUrls = (events: WalkEvent[]) =>
+    events.flatMap((event) => (event.imageUrl ? [event.imageUrl] : []))
+
+  // 함께 산책한 모든 세션을 같은 기록으로 완료 (칼로리는 세션별)
+  const completeSessions = async (
+    sessionIds: number[],
+    distanceMeters: number,
+    durationSeconds: number,
+    calories: number[],
+    details: WalkCompleteDetails,
+    imageUrls?: string[],
+    memo?: string
+  ) => {
+    const responses = await Promise.all(
+      sessionIds.map((sessionId, index) =>
+        walkSessionApi.complete(sessionId, distanceMeters, durationSeconds, calories[index] ?? 0, imageUrls, memo, details)
+      )
+    )
+    const failed = responses.find((response) => !response.success)
+    if (failed) {
+      throw new Error(failed.message || '산책 완료에 실패했습니다.')
+    }
+  }
+
   const startWalk = async () => {
+    if (selectedPetIds.length === 0) {
+      if (pets.length === 0) {
+        goToAddPet()
+      } else {
+        alert('함께 산책할 반려동물을 선택해주세요.')
+      }
+      return
+    }
+
+    // 세션 생성(비동기) 전에 요청해야 iOS에서 권한 창이 뜸
+    motionPermissionRef.current = requestMotionPermission()
+    const startedSessionIds: number[] = []
     try {
       setIsLoading(true)
       
-      // routeId는 선택사항, petId는 1 사용 (없으면 자동 생성됨)
-      const petId = 1
+      // routeId는 선택사항
       const routeId = selectedRouteId || (routes.length > 0 ? routes[0].id : null)
       
-      const response = await walkSessionApi.start(petId, routeId || undefined)
-      
-      if (response.success && response.data) {
-        setIsWalking(true)
-        setIsPaused(false)
-        setCurrentSessionId(response.data.id)
-        setStartTime(new Date())
-        setElapsedTime(0)
-        setDistance(0)
-        setStepCount(0)
-        // 위치 추적 초기화
-        positionsRef.current = []
-        lastPositionRef.current = null
-      } else {
-        throw new Error(response.message || '알 수 없는 오류가 발생했습니다.')
+      // 첫 번째 반려동물의 세션을 대표 세션으로 만들고 나머지는 대표 세션에 연결
+      for (const petId of selectedPetIds) {
+        const response = await walkSessionApi.start(petId, routeId || undefined, startedSessionIds[0])
+        if (!response.success || !response.data) {
+          throw new Error(response.message || '알 수 없는 오류가 발생했습니다.')
+        }
+        startedSessionIds.push(response.data.id)
       }
+      
+      walkStorage.saveLastPetIds(selectedPetIds)
+      setIsWalking(true)
+      setCurrentSessionIds(startedSessionIds)
+      setTimeline(createTimeline(Date.now()))
+      setDistance(0)
+      setStepCount(0)
+      setWalkEvents([])
+      setLiveShareToken(null)
+      setDanglingWalk(null)
+      lastFixRef.current = null
+      // 위치 추적 초기화
+      positionsRef.current = []
     } catch (error: any) {
+      // 일부 반려동물의 세션만 시작된 경우 시작된 세션을 정리
+      if (startedSessionIds.length > 0) {
+        Promise.all(startedSessionIds.map((sessionId) => walkSessionApi.delete(sessionId))).catch((cleanupError) => {
+          console.error('시작된 산책 세션 정리 실패:', cleanupError)
+        })
+      }
+
       console.error('산책 시작 실패:', error)
       console.error('상세 에러 정보:', {
         message: error.message,
@@ -199,178 +776,541 @@ export default function WalkSession() {
     }
   }
 
+  // 현재 위치와 시각으로 이벤트 기록
+  const recordWalkEvent = (type: WalkEventType, imageUrl?: string, position = lastFixRef.current) => {
+    if (!position) {
+      alert('현재 위치를 확인하는 중입니다. 잠시 후 다시 시도해주세요.')
+      return
+    }
+    setWalkEvents((prev) => [...prev, createWalkEvent(type, position, Date.now(), imageUrl)])
+    navigator.vibrate?.(50)
+  }
+
+  const handleWalkEventClick = (type: WalkEventType) => {
+    if (type === 'PHOTO') {
+      photoInputRef.current?.click()
+      return
+    }
+    recordWalkEvent(type)
+  }
+
+  const handlePhotoSelected = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    // 업로드하는 동안 이동하더라도 촬영한 위치로 기록
+    const position = lastFixRef.current
+    if (!position) {
+      alert('현재 위치를 확인하는 중입니다. 잠시 후 다시 시도해주세요.')
+      return
+    }
+    try {
+      setIsUploadingPhoto(true)
+      const imageUrl = await fileApi.uploadPetImage(file)
+      recordWalkEvent('PHOTO', imageUrl, position)
+    } catch (error) {
+      console.error('산책 사진 업로드 실패:', error)
+      alert(getApiErrorMessage(error, '사진 업로드에 실패했습니다.'))
+    } finally {
+      setIsUploadingPhoto(false)
+    }
+  }
+
   const pauseWalk = () => {
-    setIsPaused(!isPaused)
+    const now = Date.now()
+    setTimeline((prev) => (isTimelinePaused(prev) ? resumeTimeline(prev, now) : pauseTimeline(prev, now)))
+    setClockNow(now)
+    // 직접 일시정지/재개하면 현재 위치부터 다시 감지
+    autoPauseRef.current?.reset()
+  }
+
+  const changeAutoPauseMode = (mode: AutoPauseMode) => {
+    setAutoPauseMode(mode)
+    userSettings.save({ autoPauseMode: mode })
+  }
+
+  const sendLiveShareLink = async (token: string) => {
+    const petNames = walkingPets.map((pet) => pet.name).join(', ')
+    const result = await shareLiveLink(getLiveShareUrl(token), `${petNames}와(과) 산책 중`)
+    if (result === 'copied') {
+      alert('실시간 산책 링크를 복사했어요. 가족에게 보내주세요.')
+    }
+  }
+
+  const startLiveShare = async () => {
+    if (currentSessionIds.length === 0) return
+    try {
+      setIsStartingLiveShare(true)
+      // 대표 세션 기준으로 공유 (세션이 완료되면 링크 만료)
+      const response = await liveShareApi.create(currentSessionIds[0])
+      if (!response.success || !response.data) {
+        throw new Error(response.message || '실시간 공유를 시작하지 못했습니다.')
+      }
+      setLiveShareToken(response.data.token)
+      await sendLiveShareLink(response.data.token)
+    } catch (error) {
+      console.error('실시간 공유 시작 실패:', error)
+      alert(getApiErrorMessage(error, '실시간 공유를 시작하지 못했습니다.'))
+    } finally {
+      setIsStartingLiveShare(false)
+    }
+  }
+
+  const changeHazardMapCategories = (categories: HazardCategory[]) => {
+    setHazardMapCategories(categories)
+    userSettings.save({ hazardMapCategories: categories })
   }
 
-  const stopWalk = async () => {
-    if (!currentSessionId || !startTime) {
+  const toggleVoice = () => {
+    const next = !voiceEnabled
+    setVoiceEnabled(next)
+    userSettings.save({ voiceEnabled: next })
+    if (!next) cancelSpeech()
+  }
+
+  const stopLiveShare = () => {
+    if (!liveShareToken) return
+    liveShareApi.stop(liveShareToken).catch((error) => {
+      console.error('실시간 공유 중지 실패:', error)
+    })
+    setLiveShareToken(null)
+    // 산책 종료 후에는 저장 효과가 돌지 않으므로 복구 시 중지된 토큰으로 다시 전송하지 않도록 직접 지움
+    walkStorage.clearLiveShareToken()
+  }
+
+  const stopWalk = () => {
+    if (currentSessionIds.length === 0 || startTime === null) {
       alert('산책 세션 정보가 없습니다.')
       return
     }
     
     // GPS 추적 중지
     if (watchIdRef.current !== null) {
-      navigator.geolocation.clearWatch(watchIdRef.current)
+      locationProvider.clearWatch(watchIdRef.current)
       watchIdRef.current = null
     }
+    // 산책이 끝났으니 가족에게 보이던 실시간 공유도 종료
+    stopLiveShare()
+    cancelSpeech()
     
+    // 최종 거리, 시간, 칼로리 계산 후 요약 화면에서 사진/메모와 함께 저장
+    // (저장 전까지는 로컬 기록을 남겨 두어 새로고침해도 복구 가능)
+    const endedAt = Date.now()
+    const finalTimeline = closeTimeline(timeline, endedAt)
+    const distanceMeters = Math.round(distance)
+    const movingSeconds = summarizeTimeline(finalTimeline, endedAt).movingSeconds
+    // 세션은 선택한 반려동물 순서대로 만들어짐
+    const sessionPetIds = selectedPetIds.slice(0, currentSessionIds.length)
+    const ownerCalories = estimateOwnerCalories(ownerWeight, distanceMeters, movingSeconds)
+    
+    setFinishedWalk({
+      sessionIds: currentSessionIds,
+      summary: {
+        petNames: sessionPetIds.map((petId) => pets.find((pet) => pet.id === petId)?.name ?? ''),
+        startTime,
+        endTime: endedAt,
+        timeline: finalTimeline,
+        positions: positionsRef.current,
+        distance: distanceMeters,
+        stepCount: Math.round(stepCount),
+        petCalories: estimateSessionCalories(sessionPetIds, distanceMeters, movingSeconds),
+        ownerCalories: ownerCalories === null ? null : Math.round(ownerCalories),
+        events: walkEvents,
+      },
+    })
+    
+    setIsWalking(false)
+    setCurrentSessionIds([])
+    setTimeline([])
+    setDistance(0)
+    setStepCount(0)
+    positionsRef.current = []
+  }
+
+  // 요약 화면에서 산책 기록 저장
+  const saveFinishedWalk = async (imageUrls: string[], memo: string) => {
+    if (!finishedWalk) return
+    const { sessionIds, summary } = finishedWalk
     try {
       setIsLoading(true)
-      
-      // 최종 거리, 시간, 칼로리 계산
-      const distanceMeters = Math.round(distance)
-      const durationSeconds = elapsedTime
-      const calories = Math.round(distanceMeters * 0.05) // 간단한 칼로리 계산 (m당 0.05kcal)
+      const durationSeconds = summarizeTimeline(summary.timeline, summary.endTime).movingSeconds
       
       console.log('산책 완료 요청:', {
-        sessionId: currentSessionId,
-        distance: distanceMeters,
+        sessionIds,
+        distance: summary.distance,
         duration: durationSeconds,
-        calories,
+        calories: summary.petCalories,
+        ownerCalories: summary.ownerCalories,
       })
       
-      const response = await walkSessionApi.complete(
-        currentSessionId,
-        distanceMeters,
+      await completeSessions(
+        sessionIds,
+        summary.distance,
         durationSeconds,
-        calories
+        summary.petCalories,
+        buildCompleteDetails(summary.timeline, summary.endTime, summary.positions, summary.events, summary.stepCount, summary.ownerCalories),
+        [...getPhotoUrls(summary.events), ...imageUrls],
+        memo || undefined
       )
       
-      if (response.success) {
-        setIsWalking(false)
-        setIsPaused(false)
-        setCurrentSessionId(null)
-        setStartTime(null)
-        setElapsedTime(0)
-        setDistance(0)
-        setStepCount(0)
-        positionsRef.current = []
-        lastPositionRef.current = null
-        
-        alert(`산책이 완료되었습니다!\n거리: ${formatDistance(distanceMeters)}\n시간: ${formatTime(durationSeconds)}`)
-      } else {
-        throw new Error(response.message || '산책 완료에 실패했습니다.')
+      // 기록된 경로가 있으면 산책 경로로 저장할 수 있도록 보관
+      if (summary.positions.length >= 2) {
+        setCompletedTrack({
+          positions: summary.positions,
+          distance: summary.distance,
+          duration: durationSeconds,
+          startTime: summary.startTime,
+        })
       }
-    } catch (error: any) {
+      
+      walkStorage.clear()
+      setFinishedWalk(null)
+      setWalkEvents([])
+    } catch (error) {
       console.error('산책 완료 실패:', error)
-      const errorMessage = error.response?.data?.message || error.message || '산책 완료 처리에 실패했습니다.'
-      alert(`산책 완료 실패: ${errorMessage}`)
+      alert(`산책 완료 실패: ${getApiErrorMessage(error, '산책 완료 처리에 실패했습니다.')}`)
     } finally {
       setIsLoading(false)
     }
   }
 
-  const formatTime = (seconds: number) => {
-    const hours = Math.floor(seconds / 3600)
-    const minutes = Math.floor((seconds % 3600) / 60)
-    const secs = seconds % 60
-    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
-  }
-
-  const formatDistance = (meters: number) => {
-    if (meters < 1000) {
-      return `${meters}m`
+  // 요약 화면에서 저장하지 않고 산책 기록 삭제
+  const discardFinishedWalk = async () => {
+    if (!finishedWalk) return
+    if (!confirm('이번 산책 기록을 저장하지 않고 삭제하시겠습니까?')) return
+    try {
+      setIsLoading(true)
+      await Promise.all(finishedWalk.sessionIds.map((sessionId) => walkSessionApi.delete(sessionId)))
+      walkStorage.clear()
+      setFinishedWalk(null)
+      setWalkEvents([])
+    } catch (error) {
+      console.error('산책 삭제 실패:', error)
+      alert(`산책 삭제 실패: ${getApiErrorMessage(error, '산책 삭제에 실패했습니다.')}`)
+    } finally {
+      setIsLoading(false)
     }
-    return `${(meters / 1000).toFixed(2)} km`
   }
 
   return (
     <div className="max-w-7xl mx-auto px-4 py-6">
       <h2 className="text-2xl font-bold mb-6">산책 세션</h2>
 
-      <div className="bg-white rounded-lg shadow p-6 mb-6">
-        <div className="mb-6 overflow-hidden rounded-lg relative">
-          <KakaoMap 
-            autoLocation={true}
-            showHazards={true}
-            showSpots={true}
-            height="400px"
-            level={3}
-            enableHazardReport={enableHazardReport}
-            draggableLocationMarker={true}
-            onMapClick={(lat, lng) => {
-              setHazardReportLocation({ lat, lng });
-            }}
-            onLocationChange={(lat, lng) => {
-              // 위치가 변경되면 위험 스팟 목록 새로고침
-              setHazardsRefreshKey(prev => prev + 1);
-            }}
-            onSpotClick={(spot) => {
-              console.log('WalkSession onSpotClick 호출:', spot);
-              setSelectedSpot(spot);
-              setIsSpotModalOpen(true);
-              console.log('모달 상태 업데이트:', { selectedSpot: spot, isOpen: true });
-            }}
-            onMarkerClick={(hazard) => {
-              console.log('WalkSession onMarkerClick 호출:', hazard);
-              setSelectedHazard(hazard);
-              setIsHazardModalOpen(true);
-            }}
-            key={hazardsRefreshKey}
-          />
-          <button
-            onClick={() => setEnableHazardReport(!enableHazardReport)}
-            className={`absolute top-4 right-4 px-4 py-2 rounded-lg font-semibold transition-colors flex items-center gap-2 z-10 ${
-              enableHazardReport
-                ? 'bg-red-500 text-white hover:bg-red-600'
-                : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md'
-            }`}
-          >
-            <AlertTriangle size={20} />
-            {enableHazardReport ? '신고 모드 (지도 클릭)' : '위험 요소 신고'}
-          </button>
+      {finishedWalk && (
+        <WalkSummary
+          summary={finishedWalk.summary}
+          isSaving={isLoading}
+          onSave={saveFinishedWalk}
+          onDiscard={discardFinishedWalk}
+        />
+      )}
+
+      {danglingWalk && !isWalking && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+          <div className="flex items-start gap-3 mb-3">
+            <History className="text-yellow-600 mt-0.5 flex-shrink-0" size={20} />
+            <div>
+              <p className="font-semibold text-gray-900">완료되지 않은 산책이 있습니다</p>
+              <p className="text-sm text-gray-600">
+                {danglingWalk.sessions.map((session) => session.petName).filter(Boolean).join(', ')}
+                {' · '}
+                {new Date(danglingWalk.saved?.startTime ?? danglingWalk.sessions[0].startTime).toLocaleString('ko-KR')} 시작
+                {danglingWalk.saved && ` · ${formatDistance(Math.round(danglingWalk.saved.distance))}`}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={resumeDanglingWalk}
+              disabled={isLoading}
+              className="flex-1 bg-primary text-white py-2 rounded-lg font-semibold hover:bg-primary/90 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <Play size={18} />
+              이어서 산책
+            </button>
+            <button
+              onClick={finishDanglingWalk}
+              disabled={isLoading}
+              className="flex-1 bg-gray-600 text-white py-2 rounded-lg font-semibold hover:bg-gray-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <Square size={18} />
+              종료
+            </button>
+            <button
+              onClick={discardDanglingWalk}
+              disabled={isLoading}
+              className="px-4 bg-white border border-gray-300 text-red-500 py-2 rounded-lg hover:bg-red-50 transition-colors flex items-center justify-center disabled:opacity-50"
+              title="삭제"
+            >
+              <Trash2 size={18} />
+            </button>
+          </div>
         </div>
+      )}
 
-        {isWalking ? (
-          <div className="space-y-6">
-            <div className="grid grid-cols-3 gap-4 text-center">
-              <div>
-                <p className="text-3xl font-bold text-primary">{formatTime(elapsedTime)}</p>
-                <p className="text-sm text-gray-600">시간</p>
+      {/* 요약 화면에서 저장하기 전에는 새 산책을 시작하지 않음 */}
+      {!finishedWalk && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <div className="mb-6 overflow-hidden rounded-lg relative">
+            <KakaoMap 
+              ref={mapRef}
+              autoLocation={true}
+              showHazards={true}
+              showSpots={true}
+              height="400px"
+              level={3}
+              enableHazardReport={enableHazardReport}
+              draggableLocationMarker={true}
+              eventMarkers={walkEventMarkers}
+              path={selectedRoutePath}
+              fitPath={!isWalking}
+              onHazardsLoaded={setNearbyHazards}
+              trackHazardsAroundLocation={isWalking}
+              hazardCategories={hazardMapCategories}
+              onMapClick={(lat, lng) => {
+                setHazardReportLocation({ lat, lng });
+              }}
+              onSpotClick={(spot) => {
+                console.log('WalkSession onSpotClick 호출:', spot);
+                setSelectedSpot(spot);
+                setIsSpotModalOpen(true);
+                console.log('모달 상태 업데이트:', { selectedSpot: spot, isOpen: true });
+              }}
+              onMarkerClick={(hazard) => {
+                console.log('WalkSession onMarkerClick 호출:', hazard);
+                setSelectedHazard(hazard);
+                setIsHazardModalOpen(true);
+              }}
+            />
+            <button
+              onClick={() => setEnableHazardReport(!enableHazardReport)}
+              className={`absolute top-4 right-4 px-4 py-2 rounded-lg font-semibold transition-colors flex items-center gap-2 z-10 ${
+                enableHazardReport
+                  ? 'bg-red-500 text-white hover:bg-red-600'
+                  : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md'
+              }`}
+            >
+              <AlertTriangle size={20} />
+              {enableHazardReport ? '신고 모드 (지도 클릭)' : '위험 요소 신고'}
+            </button>
+            <div className="absolute top-4 left-4 z-10">
+              <HazardLegend
+                selected={hazardMapCategories}
+                onChange={changeHazardMapCategories}
+                counts={hazardCounts}
+              />
+            </div>
+          </div>
+
+          {isWalking ? (
+            <div className="space-y-6">
+              {walkingPets.length > 0 && (
+                <p className="text-center text-sm text-gray-600">
+                  {walkingPets.map((pet) => pet.name).join(', ')}와(과) 산책 중
+                </p>
+              )}
+
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <p className="text-3xl font-bold text-primary">{formatTime(timelineSummary.movingSeconds)}</p>
+                  <p className="text-sm text-gray-600">이동 시간</p>
+                </div>
+                <div>
+                  <p className="text-3xl font-bold text-primary">{formatDistance(Math.round(distance))}</p>
+                  <p className="text-sm text-gray-600">거리</p>
+                </div>
+                <div>
+                  <p className="text-3xl font-bold text-primary">{Math.round(stepCount).toLocaleString()}</p>
+                  <p className="text-sm text-gray-600">걸음</p>
+                </div>
               </div>
-              <div>
-                <p className="text-3xl font-bold text-primary">{formatDistance(distance)}</p>
-                <p className="text-sm text-gray-600">거리</p>
+
+              <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-sm text-gray-700">
+                {walkingPets.map((pet, index) => (
+                  <span key={pet.id}>
+                    🐾 {pet.name} <span className="font-semibold">{livePetCalories[index]} kcal</span>
+                  </span>
+                ))}
+                {liveOwnerCalories !== null ? (
+                  <span>
+                    🚶 나 <span className="font-semibold">{Math.round(liveOwnerCalories)} kcal</span>
+                  </span>
+                ) : (
+                  <span className="text-gray-400">프로필 설정에서 몸무게를 입력하면 내 칼로리도 계산돼요</span>
+                )}
               </div>
-              <div>
-                <p className="text-3xl font-bold text-primary">{stepCount.toLocaleString()}</p>
-                <p className="text-sm text-gray-600">걸음</p>
+
+              {hazardAlert && (
+                <div className="bg-red-50 border border-red-300 text-red-800 px-4 py-3 rounded-lg text-sm flex items-start gap-2">
+                  <AlertTriangle size={20} className="flex-shrink-0 text-red-500" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold">
+                      {Math.round(hazardAlert.distance)}m 앞 {getHazardCategoryLabel(hazardAlert.hazard.category)} 신고가 있어요
+                    </p>
+                    {hazardAlert.hazard.description && (
+                      <p className="text-red-700 truncate">{hazardAlert.hazard.description}</p>
+                    )}
+                  </div>
+                  <button onClick={() => setHazardAlert(null)} className="text-red-400 hover:text-red-600">
+                    <X size={18} />
+                  </button>
+                </div>
+              )}
+
+              {pauseReason === 'auto' && (
+                <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-2 rounded-lg text-sm flex items-center justify-center gap-2">
+                  <Timer size={16} />
+                  멈춰 있어서 자동으로 일시정지했어요. 다시 걸으면 자동으로 재개됩니다.
+                </div>
+              )}
+
+              <div className="flex justify-center items-center gap-6 text-sm text-gray-600">
+                <span className={isPaused ? 'text-yellow-600 font-semibold' : ''}>
+                  일시정지 {formatTime(timelineSummary.pausedSeconds)}
+                </span>
+                <span>전체 {formatTime(timelineSummary.totalSeconds)}</span>
+                {isSpeechSupported() && (
+                  <button
+                    onClick={toggleVoice}
+                    className={`flex items-center gap-1 ${voiceEnabled ? 'text-primary font-semibold' : 'text-gray-400'}`}
+                    title="음성 안내 (프로필 설정에서 언어·음성·안내 항목 선택)"
+                  >
+                    {voiceEnabled ? <Volume2 size={16} /> : <VolumeX size={16} />}
+                    음성 안내
+                  </button>
+                )}
               </div>
-            </div>
 
-            <div className="flex gap-4">
-              <button
-                onClick={pauseWalk}
-                className={`flex-1 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2 ${
-                  isPaused
-                    ? 'bg-secondary text-white hover:bg-secondary/90'
-                    : 'bg-yellow-500 text-white hover:bg-yellow-600'
-                }`}
-              >
-                {isPaused ? <Play size={20} /> : <Pause size={20} />}
-                {isPaused ? '재개' : '일시정지'}
-              </button>
+              {liveShareToken ? (
+                <div className="flex items-center justify-between gap-2 px-3 py-2 bg-green-50 border border-green-200 rounded-lg text-sm">
+                  <span className="flex items-center gap-1 text-green-700 font-semibold">
+                    <Radio size={16} />
+                    가족에게 실시간 공유 중
+                  </span>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => sendLiveShareLink(liveShareToken)}
+                      className="px-2 py-1 bg-white border border-green-200 rounded text-green-700 hover:bg-green-100 flex items-center gap-1"
+                    >
+                      <Share2 size={14} />
+                      링크 보내기
+                    </button>
+                    <button
+                      onClick={stopLiveShare}
+                      className="px-2 py-1 bg-white border border-gray-200 rounded text-gray-600 hover:bg-gray-100"
+                    >
+                      공유 중지
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={startLiveShare}
+                  disabled={isStartingLiveShare}
+                  className="w-full py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  {isStartingLiveShare ? <Loader2 size={16} className="animate-spin" /> : <Radio size={16} />}
+                  실시간 산책 공유
+                </button>
+              )}
+
+              <div className="grid grid-cols-3 gap-2">
+                {WALK_EVENT_TYPES.map((type) => (
+                  <button
+                    key={type}
+                    onClick={() => handleWalkEventClick(type)}
+                    disabled={type === 'PHOTO' && isUploadingPhoto}
+                    className="relative py-2 px-1 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-100 transition-colors flex flex-col items-center gap-0.5 disabled:opacity-50"
+                  >
+                    <span className="text-xl">
+                      {type === 'PHOTO' && isUploadingPhoto ? <Loader2 size={20} className="animate-spin" /> : WALK_EVENT_EMOJIS[type]}
+                    </span>
+                    {WALK_EVENT_LABELS[type]}
+                    {walkEventCounts[type] && (
+                      <span
+                        className="absolute top-1 right-1 min-w-[1.25rem] h-5 px-1 rounded-full text-xs text-white flex items-center justify-center"
+                        style={{ backgroundColor: WALK_EVENT_COLORS[type] }}
+                      >
+                        {walkEventCounts[type]}
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+              <input
+                ref={photoInputRef}
+                type="file"
+                accept="image/*"
+                capture="environment"
+                onChange={handlePhotoSelected}
+                className="hidden"
+              />
+
+              {selectedRoute && selectedRoutePath.length >= 2 && (
+                <RouteGuidePanel
+                  routeName={selectedRoute.name}
+                  progress={routeProgress}
+                  offRouteDistance={offRouteDistance}
+                  onOffRouteDistanceChange={changeOffRouteDistance}
+                />
+              )}
+
+              <div className="flex gap-4">
+                <button
+                  onClick={pauseWalk}
+                  className={`flex-1 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2 ${
+                    isPaused
+                      ? 'bg-secondary text-white hover:bg-secondary/90'
+                      : 'bg-yellow-500 text-white hover:bg-yellow-600'
+                  }`}
+                >
+                  {isPaused ? <Play size={20} /> : <Pause size={20} />}
+                  {isPaused ? '재개' : '일시정지'}
+                </button>
+                <button
+                  onClick={stopWalk}
+                  className="flex-1 bg-red-500 text-white py-3 rounded-lg font-semibold hover:bg-red-600 transition-colors flex items-center justify-center gap-2"
+                >
+                  <Square size={20} />
+                  종료
+                </button>
+              </div>
+
+              <AutoPauseSelector mode={autoPauseMode} onChange={changeAutoPauseMode} />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {isPetsLoaded && (
+                <PetPicker
+                  pets={pets}
+                  selectedPetIds={selectedPetIds}
+                  onChange={setSelectedPetIds}
+                  onAddPet={goToAddPet}
+                  disabled={isLoading}
+                />
+              )}
+              <AutoPauseSelector mode={autoPauseMode} onChange={changeAutoPauseMode} />
+              {selectedRoute && selectedRoutePath.length >= 2 && (
+                <RouteGuidePanel
+                  routeName={selectedRoute.name}
+                  progress={null}
+                  offRouteDistance={offRouteDistance}
+                  onOffRouteDistanceChange={changeOffRouteDistance}
+                  onClear={() => setSelectedRouteId(null)}
+                />
+              )}
               <button
-                onClick={stopWalk}
-                className="flex-1 bg-red-500 text-white py-3 rounded-lg font-semibold hover:bg-red-600 transition-colors flex items-center justify-center gap-2"
+                onClick={startWalk}
+                disabled={isLoading}
+                className="w-full bg-primary text-white py-4 rounded-lg font-semibold hover:bg-primary/90 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                <Square size={20} />
-                종료
+                {isLoading ? <Loader2 size={24} className="animate-spin" /> : <Play size={24} />}
+                {isLoading ? '시작 중...' : '산책 시작하기'}
               </button>
             </div>
-          </div>
-        ) : (
-          <button
-            onClick={startWalk}
-            disabled={isLoading}
-            className="w-full bg-primary text-white py-4 rounded-lg font-semibold hover:bg-primary/90 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {isLoading ? <Loader2 size={24} className="animate-spin" /> : <Play size={24} />}
-            {isLoading ? '시작 중...' : '산책 시작하기'}
-          </button>
-        )}
-      </div>
+          )}
+        </div>
+      )}
 
       {/* 위험 요소 등록 모달 */}
       {hazardReportLocation && (
@@ -382,13 +1322,58 @@ export default function WalkSession() {
             setEnableHazardReport(false);
           }}
           onSuccess={() => {
-            setHazardsRefreshKey(prev => prev + 1);
+            mapRef.current?.refreshHazards();
             setHazardReportLocation(null);
             setEnableHazardReport(false);
           }}
         />
       )}
       
+      {/* 산책 경로 저장 모달 */}
+      {completedTrack && (
+        <SaveRouteModal
+          coordinates={completedTrack.positions.map((position) => ({
+            latitude: position.lat,
+            longitude: position.lng,
+          }))}
+          distance={completedTrack.distance}
+          duration={completedTrack.duration}
+          defaultName={`${new Date(completedTrack.startTime).toLocaleDateString('ko-KR')} 산책`}
+          onClose={() => setCompletedTrack(null)}
+          onSuccess={() => {
+            loadRoutes()
+          }}
+        />
+      )}
+
+      {/* 경로 그리기/수정 모달 */}
+      {routeEditor && (
+        <RouteEditorModal
+          route={routeEditor.route}
+          onClose={() => setRouteEditor(null)}
+          onSuccess={(route) => {
+            loadRoutes()
+            setRouteTab('my')
+            if (!isWalking) setSelectedRouteId(route.id)
+          }}
+        />
+      )}
+
+      {/* 경로 가져오기 모달 */}
+      {isRouteImportOpen && (
+        <RouteImportModal
+          onClose={() => setIsRouteImportOpen(false)}
+          onSuccess={(route) => {
+            loadRoutes()
+            setRouteTab('my')
+            if (!isWalking) setSelectedRouteId(route.id)
+          }}
+        />
+      )}
+
+      {/* 개발 환경 전용: 가짜 GPS로 산책 화면 확인 */}
+      {import.meta.env.DEV && <LocationSimulatorPanel routes={[...routes, ...myRoutes]} />}
+      
       {/* 스팟 상세 모달 */}
       <SpotDetailModal
         spot={selectedSpot}
@@ -413,10 +1398,11 @@ export default function WalkSession() {
           setIsHazardEditModalOpen(true);
         }}
         onDelete={() => {
-          setHazardsRefreshKey(prev => prev + 1);
+          mapRef.current?.refreshHazards();
           setIsHazardModalOpen(false);
           setSelectedHazard(null);
         }}
+        onVoted={() => mapRef.current?.refreshHazards()}
       />
       
       {/* 위험 스팟 수정 모달 */}
@@ -428,12 +1414,13 @@ export default function WalkSession() {
           initialCategory={editingHazard.category as any}
           initialDescription={editingHazard.description}
           initialImageUrl={editingHazard.imageUrl}
+          initialActiveHours={editingHazard.activeHours}
           onClose={() => {
             setIsHazardEditModalOpen(false);
             setEditingHazard(null);
           }}
           onSuccess={() => {
-            setHazardsRefreshKey(prev => prev + 1);
+            mapRef.current?.refreshHazards();
             setIsHazardEditModalOpen(false);
             setEditingHazard(null);
           }}
@@ -441,28 +1428,169 @@ export default function WalkSession() {
       )}
 
       <div className="bg-white rounded-lg shadow p-6">
-        <h3 className="text-lg font-semibold mb-4">추천 산책 경로</h3>
+        <div className="flex items-center justify-between gap-2 mb-4">
+          <div className="flex gap-4">
+            {(['shared', 'my'] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setRouteTab(tab)}
+                className={`text-lg font-semibold transition-colors ${
+                  routeTab === tab ? 'text-gray-900' : 'text-gray-400 hover:text-gray-600'
+                }`}
+              >
+                {tab === 'shared' ? '추천 산책 경로' : '내 경로'}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setRouteEditor({ route: null })}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-primary border border-primary rounded-lg hover:bg-primary/10 transition-colors"
+            >
+              <PenLine size={16} />
+              그리기
+            </button>
+            <button
+              onClick={() => setIsRouteImportOpen(true)}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-primary border border-primary rounded-lg hover:bg-primary/10 transition-colors"
+            >
+              <Upload size={16} />
+              가져오기
+            </button>
+          </div>
+        </div>
         {isLoading ? (
           <div className="flex items-center justify-center py-8">
             <Loader2 className="animate-spin text-primary" size={32} />
           </div>
-        ) : routes.length > 0 ? (
+        ) : visibleRoutes.length > 0 ? (
           <div className="space-y-3">
-            {routes.map((route) => (
+            {visibleRoutes.map((route) => (
               <RouteCard
                 key={route.id}
                 name={route.name}
                 distance={`${(route.distance / 1000).toFixed(2)} km`}
                 time={`${Math.floor(route.duration / 60)}분`}
-                onClick={() => setSelectedRouteId(route.id)}
+                onClick={() => setSelectedRouteId(selectedRouteId === route.id && !isWalking ? null : route.id)}
                 selected={selectedRouteId === route.id}
+                getExportTrack={
+                  route.coordinates && route.coordinates.length >= 2
+                    ? () => routeToExportTrack(route)
+                    : undefined
+                }
+                onEdit={routeTab === 'my' ? () => setRouteEditor({ route }) : undefined}
               />
             ))}
           </div>
         ) : (
-          <p className="text-gray-500 text-center py-4">등록된 산책 경로가 없습니다.</p>
+          <p className="text-gray-500 text-center py-4">
+            {routeTab === 'shared' ? '등록된 산책 경로가 없습니다.' : '직접 만든 경로가 없습니다. 경로를 그리거나 가져와 보세요.'}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface AutoPauseSelectorProps {
+  mode: AutoPauseMode
+  onChange: (mode: AutoPauseMode) => void
+}
+
+function AutoPauseSelector({ mode, onChange }: AutoPauseSelectorProps) {
+  const modes: AutoPauseMode[] = ['off', 'sensitive', 'relaxed']
+  return (
+    <div className="flex items-center justify-between gap-3 text-sm">
+      <span className="text-gray-600 flex items-center gap-1">
+        <Timer size={16} />
+        자동 일시정지
+      </span>
+      <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+        {modes.map((item) => (
+          <button
+            key={item}
+            type="button"
+            onClick={() => onChange(item)}
+            className={`px-3 py-1 transition-colors ${
+              mode === item ? 'bg-primary text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {AUTO_PAUSE_MODE_LABELS[item]}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface RouteGuidePanelProps {
+  routeName: string
+  /** 산책 시작 전에는 null */
+  progress: RouteProgress | null
+  offRouteDistance: number
+  onOffRouteDistanceChange: (meters: number) => void
+  onClear?: () => void
+}
+
+function RouteGuidePanel({
+  routeName,
+  progress,
+  offRouteDistance,
+  onOffRouteDistanceChange,
+  onClear,
+}: RouteGuidePanelProps) {
+  const percent = progress ? Math.round(progress.progress * 100) : 0
+
+  return (
+    <div className="border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold text-blue-800 flex items-center gap-1">
+          <Navigation size={16} />
+          {routeName} 따라가기
+        </span>
+        {onClear && (
+          <button type="button" onClick={onClear} className="text-xs text-blue-700 hover:underline">
+            선택 해제
+          </button>
         )}
       </div>
+
+      {progress && (
+        <>
+          <div className="w-full bg-blue-100 rounded-full h-2 overflow-hidden">
+            <div className="bg-blue-600 h-2 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <div className="flex justify-between text-sm text-blue-900">
+            <span>진행률 {percent}%</span>
+            <span>남은 거리 {formatDistance(Math.round(progress.remainingDistance))}</span>
+          </div>
+        </>
+      )}
+
+      {progress?.isFinished ? (
+        <div className="bg-green-100 border border-green-200 text-green-800 px-3 py-2 rounded-lg text-sm flex items-center gap-2">
+          <Flag size={16} />
+          경로 도착! 산책 경로를 완주했어요.
+        </div>
+      ) : progress?.isOffRoute ? (
+        <div className="bg-red-100 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm flex items-center gap-2">
+          <AlertTriangle size={16} />
+          경로에서 {Math.round(progress.distanceFromRoute)}m 벗어났어요. 파란 선을 따라 돌아가세요.
+        </div>
+      ) : null}
+
+      <label className="flex items-center justify-between text-sm text-blue-900">
+        이탈 알림 거리
+        <select
+          value={offRouteDistance}
+          onChange={(e) => onOffRouteDistanceChange(Number(e.target.value))}
+          className="px-2 py-1 border border-blue-200 rounded-lg bg-white"
+        >
+          {OFF_ROUTE_DISTANCE_OPTIONS.map((meters) => (
+            <option key={meters} value={meters}>{meters}m</option>
+          ))}
+        </select>
+      </label>
     </div>
   )
 }
@@ -473,9 +1601,11 @@ interface RouteCardProps {
   time: string
   onClick?: () => void
   selected?: boolean
+  getExportTrack?: () => ExportTrack
+  onEdit?: () => void
 }
 
-function RouteCard({ name, distance, time, onClick, selected }: RouteCardProps) {
+function RouteCard({ name, distance, time, onClick, selected, getExportTrack, onEdit }: RouteCardProps) {
   return (
     <div
       onClick={onClick}
@@ -485,7 +1615,27 @@ function RouteCard({ name, distance, time, onClick, selected }: RouteCardProps)
           : 'bg-gray-50 hover:bg-gray-100'
       }`}
     >
-      <h4 className="font-semibold mb-2">{name}</h4>
+      <div className="flex items-start justify-between gap-2">
+        <h4 className="font-semibold mb-2">{name}</h4>
+        <div className="flex items-center">
+          {onEdit && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation()
+                onEdit()
+              }}
+              className={`p-2 rounded-lg transition-colors ${
+                selected ? 'text-white hover:bg-white/20' : 'text-gray-500 hover:bg-gray-200'
+              }`}
+              title="수정"
+            >
+              <Pencil size={18} />
+            </button>
+          )}
+          {getExportTrack && <TrackExportMenu getTrack={getExportTrack} inverted={selected} />}
+        </div>
+      </div>
       <div className={`flex gap-4 text-sm ${selected ? 'text-white/90' : 'text-gray-600'}`}>
         <span>거리: {distance}</span>
         <span>예상 시간: {time}</span>
@@ -17,11 +17,61 @@ declare namespace kakao.maps {
   class Map {
     constructor(container: HTMLElement, options: MapOptions);
     setCenter(latlng: LatLng): void;
-    setLevel(level: number): void;
+    setLevel(level: number, options?: { anchor?: LatLng; animate?: boolean | { duration: number } }): void;
     getCenter(): LatLng;
     getLevel(): number;
+    getBounds(): LatLngBounds;
     relayout(): void;
     panTo(target: LatLng): void;
+    setBounds(bounds: LatLngBounds, paddingTop?: number, paddingRight?: number, paddingBottom?: number, paddingLeft?: number): void;
+  }
+
+  class LatLngBounds {
+    constructor(sw?: LatLng, ne?: LatLng);
+    extend(latlng: LatLng): void;
+    getSouthWest(): LatLng;
+    getNorthEast(): LatLng;
+    contain(latlng: LatLng): boolean;
+    isEmpty(): boolean;
+  }
+
+  interface PolylineOptions {
+    map?: Map;
+    path: LatLng[];
+    strokeWeight?: number;
+    strokeColor?: string;
+    strokeOpacity?: number;
+    strokeStyle?: 'solid' | 'shortdash' | 'shortdot' | 'shortdashdot' | 'shortdashdotdot' | 'dot' | 'dash' | 'dashdot' | 'longdash' | 'longdashdot' | 'longdashdotdot';
+    zIndex?: number;
+  }
+
+  class Polyline {
+    constructor(options: PolylineOptions);
+    setMap(map: Map | null): void;
+    getMap(): Map | null;
+    setPath(path: LatLng[]): void;
+    getPath(): LatLng[];
+    getLength(): number;
+    setOptions(options: Partial<PolylineOptions>): void;
+  }
+
+  interface RectangleOptions {
+    map?: Map;
+    bounds: LatLngBounds;
+    strokeWeight?: number;
+    strokeColor?: string;
+    strokeOpacity?: number;
+    fillColor?: string;
+    fillOpacity?: number;
+    zIndex?: number;
+  }
+
+  class Rectangle {
+    constructor(options: RectangleOptions);
+    setMap(map: Map | null): void;
+    getMap(): Map | null;
+    setBounds(bounds: LatLngBounds): void;
+    setOptions(options: Partial<RectangleOptions>): void;
   }
 
   interface MarkerOptions {
@@ -30,7 +80,9 @@ declare namespace kakao.maps {
     image?: MarkerImage;
     title?: string;
     clickable?: boolean;
+    draggable?: boolean;
     zIndex?: number;
+    opacity?: number;
   }
 
   class Marker {
@@ -38,6 +90,10 @@ declare namespace kakao.maps {
     setMap(map: Map | null): void;
     setPosition(position: LatLng): void;
     getPosition(): LatLng;
+    setImage(image: MarkerImage): void;
+    setDraggable(draggable: boolean): void;
+    setZIndex(zIndex: number): void;
+    setOpacity(opacity: number): void;
   }
 
   interface MarkerImageOptions {
@@ -81,8 +137,19 @@ declare namespace kakao.maps {
   }
 
   namespace event {
-    function addListener(target: any, type: string, handler: () => void): void;
-    function removeListener(target: any, type: string, handler: () => void): void;
+    /** 지도 클릭 등 마우스 이벤트 정보 */
+    interface MouseEvent {
+      latLng: LatLng;
+      point: Point;
+    }
+
+    function addListener(
+      target: clusterer.MarkerClusterer,
+      type: 'clusterclick',
+      handler: (cluster: clusterer.Cluster) => void
+    ): void;
+    function addListener(target: any, type: string, handler: (mouseEvent: MouseEvent) => void): void;
+    function removeListener(target: any, type: string, handler: (mouseEvent: MouseEvent) => void): void;
   }
 
   namespace services {
@@ -93,7 +160,8 @@ declare namespace kakao.maps {
         callback: (result: AddressSearchResult[], status: Status) => void
       ): void;
       coord2Address(
-        coord: LatLng,
+        x: number,
+        y: number,
         callback: (result: Coord2AddressResult[], status: Status) => void
       ): void;
     }
@@ -121,25 +189,31 @@ declare namespace kakao.maps {
     interface Coord2AddressResult {
       address: {
         address_name: string;
-        road_address?: {
-          address_name: string;
-          building_name?: string;
-        };
       };
+      road_address: {
+        address_name: string;
+        road_name: string;
+        building_name?: string;
+      } | null;
     }
   }
 
   namespace clusterer {
+    /** 클러스터 마커에 적용할 CSS (예: { background: 'red' }) */
+    type ClusterStyle = Record<string, string>;
+
     interface ClustererOptions {
       map: Map;
-      markers: Marker[];
+      markers?: Marker[];
       gridSize?: number;
       minClusterSize?: number;
       averageCenter?: boolean;
       minLevel?: number;
       disableClickZoom?: boolean;
       calculator?: number[];
-      styles?: any[];
+      texts?: string[] | ((size: number) => string);
+      styles?: ClusterStyle[];
+      clickable?: boolean;
     }
 
     class MarkerClusterer {
@@ -149,7 +223,7 @@ declare namespace kakao.maps {
       removeMarker(marker: Marker, nodraw?: boolean): void;
       removeMarkers(markers: Marker[], nodraw?: boolean): void;
       clear(): void;
-      getClusters(): any[];
+      getClusters(): Cluster[];
       getClusterSize(): number;
       getMap(): Map;
       setGridSize(gridSize: number): void;
@@ -158,6 +232,13 @@ declare namespace kakao.maps {
       setMinLevel(minLevel: number): void;
       redraw(): void;
     }
+
+    class Cluster {
+      getCenter(): LatLng;
+      getBounds(): LatLngBounds;
+      getSize(): number;
+      getMarkers(): Marker[];
+    }
   }
 }
 